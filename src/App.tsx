@@ -12,8 +12,11 @@ import Login from "@/pages/Login";
 import Signup from "@/pages/Signup";
 import Dashboard from "@/pages/Dashboard";
 import AnalysisHistory from "@/pages/AnalysisHistory";
+import Evaluation from "@/pages/Evaluation";
 import Incidents from "@/pages/Incidents";
 import IncidentDetail from "@/pages/IncidentDetail";
+import Problems from "@/pages/Problems";
+import ProblemDetail from "@/pages/ProblemDetail";
 import About from "@/pages/About";
 import AccountSettings from "@/pages/AccountSettings";
 import NotFound from "@/pages/NotFound";
@@ -39,7 +42,10 @@ const App = () => (
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/incidents" element={<Incidents />} />
                 <Route path="/incidents/:id" element={<IncidentDetail />} />
+                <Route path="/problems" element={<Problems />} />
+                <Route path="/problems/:id" element={<ProblemDetail />} />
                 <Route path="/history" element={<AnalysisHistory />} />
+                <Route path="/evaluation" element={<Evaluation />} />
                 <Route path="/about" element={<About />} />
                 <Route path="/settings" element={<AccountSettings />} />
               </Route>
@@ -11,7 +11,9 @@ import {
   Sun,
   Moon,
   Shield,
+  Layers,
   Info,
+  FlaskConical,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
@@ -22,7 +24,9 @@ import { useToast } from "@/hooks/use-toast";
 const NAV_ITEMS = [
   { label: "Dashboard", to: "/dashboard", icon: LayoutDashboard },
   { label: "Incidents", to: "/incidents", icon: Shield },
+  { label: "Problems", to: "/problems", icon: Layers },
   { label: "Analysis History", to: "/history", icon: History },
+  { label: "Evaluation", to: "/evaluation", icon: FlaskConical },
   { label: "About", to: "/about", icon: Info },
   { label: "Settings", to: "/settings", icon: Settings },
 ];
@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { confidenceClass, confidenceLevel } from "@/lib/confidence";
+
+interface Props {
+  score: number | null;
+  /** Per-signal breakdown, shown on hover */
+  reasoning?: string | null;
+  className?: string;
+}
+
+export function ConfidenceBadge({ score, reasoning, className }: Props) {
+  if (score === null) return null;
+  const level = confidenceLevel(score);
+
+  return (
+    <Badge variant="outline" className={cn("text-xs", confidenceClass(level), className)} title={reasoning || undefined}>
+      {score}% confidence{level === "low" && " · needs review"}
+    </Badge>
+  );
+}
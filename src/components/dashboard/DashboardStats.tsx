@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
+import { errorTypeColor } from "@/lib/taxonomyRules";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
 
 interface StatsData {
   totalAnalyses: number;
@@ -14,16 +16,6 @@ interface StatsData {
   firstOccurrences: Record<string, string>;
 }
 
-const ERROR_COLORS: Record<string, string> = {
-  OutOfMemoryError: "bg-destructive/15 text-destructive",
-  NullPointerException: "bg-orange-500/15 text-orange-600 dark:text-orange-400",
-  TimeoutException: "bg-yellow-500/15 text-yellow-700 dark:text-yellow-400",
-  PermissionDenied: "bg-purple-500/15 text-purple-700 dark:text-purple-400",
-  SchemaMismatch: "bg-blue-500/15 text-blue-700 dark:text-blue-400",
-  NetworkError: "bg-rose-500/15 text-rose-700 dark:text-rose-400",
-  UnknownError: "bg-muted text-muted-foreground",
-};
-
 function formatShortDate(dateStr: string) {
   return new Intl.DateTimeFormat("en-US", {
     month: "short",
@@ -36,6 +28,7 @@ export function DashboardStats() {
   const [stats, setStats] = useState<StatsData | null>(null);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { rules: taxonomyRules } = useTaxonomyRules();
 
   useEffect(() => {
     if (!user) return;
@@ -192,7 +185,7 @@ export function DashboardStats() {
               .sort((a, b) => b[1] - a[1])
               .map(([type, count]) => (
                 <div key={type} className="flex items-center gap-3">
-                  <Badge className={cn("text-xs border-0 shrink-0", ERROR_COLORS[type] || ERROR_COLORS.UnknownError)}>
+                  <Badge className={cn("text-xs border-0 shrink-0", errorTypeColor(type, taxonomyRules))}>
                     {type}
                   </Badge>
                   <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
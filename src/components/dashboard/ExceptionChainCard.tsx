@@ -0,0 +1,46 @@
+import { GitBranch, CornerDownRight } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ExceptionLink } from "@/lib/exceptionChain";
+
+interface Props {
+  chain: ExceptionLink[];
+}
+
+export function ExceptionChainCard({ chain }: Props) {
+  // A single exception has no wrappers worth showing
+  if (chain.length < 2) return null;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <GitBranch className="h-4 w-4 text-primary" /> Exception Chain
+          <span className="text-xs font-normal text-muted-foreground">{chain.length} levels, outermost first</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1.5">
+        {chain.map((link) => {
+          const isRoot = link.depth === chain.length - 1;
+          return (
+            <div key={link.depth} className="flex items-start gap-1.5 text-xs" style={{ paddingLeft: `${link.depth * 16}px` }}>
+              {link.depth > 0 && <CornerDownRight className="h-3 w-3 mt-0.5 shrink-0 text-muted-foreground" />}
+              <div className="min-w-0">
+                <span className={cn("font-mono font-semibold break-all", isRoot ? "text-destructive" : "text-foreground")}>
+                  {link.exceptionType}
+                </span>
+                {link.message && <span className="text-muted-foreground break-all">: {link.message}</span>}
+                {isRoot && (
+                  <Badge variant="outline" className="ml-2 text-[10px] bg-destructive/15 text-destructive border-destructive/30">
+                    Root cause
+                  </Badge>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
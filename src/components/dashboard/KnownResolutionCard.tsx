@@ -0,0 +1,47 @@
+import { Link } from "react-router-dom";
+import { CheckCircle2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { KnownResolution } from "@/lib/knownResolutions";
+
+interface Props {
+  resolution: KnownResolution | null;
+  /** The AI call was skipped and the results below come from the past incident */
+  reused: boolean;
+}
+
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric" }).format(new Date(dateStr));
+}
+
+export function KnownResolutionCard({ resolution, reused }: Props) {
+  if (!resolution) return null;
+
+  return (
+    <Card className="border-l-4 border-l-green-500 bg-green-500/5 shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2 flex-wrap">
+          <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+          This matches a resolved incident — here is the fix that worked
+          <Badge variant="outline" className="text-xs font-normal">
+            {resolution.traceSimilarity === 1 ? "Same fingerprint" : `Trace ${Math.round(resolution.traceSimilarity * 100)}% similar`}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">{resolution.resolutionNotes}</p>
+        {resolution.rootCauseSummary && (
+          <p className="text-xs text-muted-foreground">Root cause then: {resolution.rootCauseSummary}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {reused
+            ? "AI analysis was skipped; the results below are reused from the resolved incident."
+            : "The AI analysis below was asked to build on this fix."}{" "}
+          <Link to={`/incidents/${resolution.incidentId}`} className="text-primary underline-offset-4 hover:underline">
+            Incident from {formatDate(resolution.createdAt)} →
+          </Link>
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from "react";
+import { ScrollText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { formatLineRange, isLineCited, LineRange } from "@/lib/evidence";
+
+interface Props {
+  /** The cleaned log the analysis cited, numbered from 1 */
+  log: string;
+  highlight: LineRange[];
+}
+
+export function LogViewer({ log, highlight }: Props) {
+  const firstCited = useRef<HTMLDivElement>(null);
+
+  // Bring the cited lines into view whenever a different claim is selected
+  useEffect(() => {
+    firstCited.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [highlight]);
+
+  const lines = log.split("\n");
+  const first = highlight.length > 0 ? Math.min(...highlight.map((r) => r.start)) : null;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <ScrollText className="h-4 w-4 text-primary" /> Analyzed Log
+          <span className="text-xs font-normal text-muted-foreground">
+            {highlight.length > 0
+              ? `Showing ${highlight.map(formatLineRange).join(", ").toLowerCase()}`
+              : "Click a cited line range to highlight it"}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-auto rounded-md border border-border bg-muted/30 py-2 font-mono text-xs">
+          {lines.map((line, i) => {
+            const n = i + 1;
+            const cited = isLineCited(n, highlight);
+            return (
+              <div key={n} ref={n === first ? firstCited : undefined}
+                className={cn("flex whitespace-pre", cited && "bg-yellow-500/20")}>
+                <span className={cn("w-12 shrink-0 select-none pr-3 text-right text-muted-foreground", cited && "font-semibold text-foreground")}>
+                  {n}
+                </span>
+                <span className="pr-3 text-foreground">{line || " "}</span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Clickable line-range citations for one claim */
+export function EvidenceLinks({ ranges, onSelect }: { ranges: LineRange[]; onSelect: (ranges: LineRange[]) => void }) {
+  if (ranges.length === 0) return null;
+  return (
+    <span className="ml-1 inline-flex flex-wrap gap-1 align-middle">
+      {ranges.map((range) => (
+        <button key={`${range.start}-${range.end}`} type="button" onClick={() => onSelect([range])}
+          className="rounded border border-primary/30 bg-primary/10 px-1.5 text-[10px] font-medium text-primary hover:bg-primary/20">
+          {formatLineRange(range)}
+        </button>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { FileCode2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { fetchFeedbackLessons, FeedbackLesson } from "@/lib/provenance";
+import type { InjectedLesson } from "@/lib/analysisSchema";
+import { FEEDBACK_SECTION_LABELS } from "@/lib/feedbackLessons";
+
+interface Props {
+  promptVersion: string | null;
+  provider: string | null;
+  model: string | null;
+  temperature: number | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  feedbackLessonIds: string[];
+  /** As the analyze reply ranked them; without these the lessons are loaded by id, with no match details */
+  lessons?: InjectedLesson[];
+}
+
+function formatTokens(n: number | null) {
+  return n === null ? "—" : n.toLocaleString();
+}
+
+/** Why a lesson was picked; only known for the reply that injected it */
+function LessonMatch({ lesson }: { lesson: FeedbackLesson | InjectedLesson }) {
+  if (!("similarity" in lesson)) return null;
+  const confirmed = lesson.confirmations > 0 ? `, confirmed ${lesson.confirmations}×` : "";
+  return (
+    <span className="block text-[11px] opacity-80">
+      {lesson.similarity}% similar{confirmed}{lesson.matchReasons.length > 0 && ` · ${lesson.matchReasons.join(", ")}`}
+    </span>
+  );
+}
+
+export function ProvenanceCard({
+  promptVersion, provider, model, temperature, promptTokens, completionTokens, feedbackLessonIds, lessons: injected,
+}: Props) {
+  const [fetched, setFetched] = useState<FeedbackLesson[]>([]);
+  const lessons = injected ?? fetched;
+
+  useEffect(() => {
+    if (!injected) fetchFeedbackLessons(feedbackLessonIds).then(setFetched);
+  }, [feedbackLessonIds, injected]);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <FileCode2 className="h-4 w-4 text-primary" /> Analysis Provenance
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {promptVersion ? (
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs sm:grid-cols-4">
+            <dt className="text-muted-foreground">Prompt</dt>
+            <dd><Badge variant="outline" className="text-xs font-mono">{promptVersion}</Badge></dd>
+            <dt className="text-muted-foreground">Model</dt>
+            <dd className="font-mono text-foreground">{provider}/{model}</dd>
+            <dt className="text-muted-foreground">Temperature</dt>
+            <dd className="text-foreground">{temperature ?? "—"}</dd>
+            <dt className="text-muted-foreground">Tokens (prompt / completion)</dt>
+            <dd className="text-foreground">{formatTokens(promptTokens)} / {formatTokens(completionTokens)}</dd>
+          </dl>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            No AI call recorded: this incident predates provenance tracking or reused a known fix.
+          </p>
+        )}
+        {lessons.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-foreground">Feedback lessons injected into the prompt</p>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {lessons.map((lesson) => (
+                <li key={lesson.id}>
+                  <span className="font-medium">{FEEDBACK_SECTION_LABELS[lesson.sectionName] || lesson.sectionName}:</span>{" "}
+                  “{lesson.comment}”{" "}
+                  <Link to={`/incidents/${lesson.incidentId}`} className="text-primary underline-offset-4 hover:underline">source</Link>
+                  <LessonMatch lesson={lesson} />
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
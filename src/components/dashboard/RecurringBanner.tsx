@@ -1,26 +1,38 @@
+import { Link } from "react-router-dom";
 import { AlertTriangle } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
+import type { Problem } from "@/lib/problems";
 
 interface Props {
-  count: number;
-  errorType: string;
+  problem: Problem | null;
 }
 
-export function RecurringBanner({ count, errorType }: Props) {
-  if (count <= 1) return null;
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", year: "numeric" }).format(new Date(dateStr));
+}
+
+export function RecurringBanner({ problem }: Props) {
+  if (!problem || problem.occurrence_count <= 1) return null;
+
+  const count = problem.occurrence_count;
+  const services = problem.affected_services.length;
 
   return (
     <Card className="border-orange-500/30 bg-orange-500/10">
       <CardContent className="p-4 flex items-center gap-3">
         <AlertTriangle className="h-5 w-5 text-orange-600 dark:text-orange-400 shrink-0" />
-        <div>
+        <div className="flex-1">
           <p className="text-sm font-semibold text-orange-700 dark:text-orange-300">
-            ⚠ Recurring Incident Detected
+            ⚠ {problem.status === "Known Issue" ? "Known Issue" : "Recurring Incident"} Detected
           </p>
           <p className="text-xs text-orange-600 dark:text-orange-400 mt-0.5">
-            This <span className="font-medium">{errorType}</span> error has occurred {count} time{count !== 1 ? "s" : ""} in the past 7 days.
+            <span className="font-medium">{problem.title}</span> has occurred {count} time{count !== 1 ? "s" : ""} since {formatDate(problem.first_seen)}
+            {services > 1 && <> across {services} services</>}.
           </p>
         </div>
+        <Link to={`/problems/${problem.id}`} className="text-xs font-medium text-orange-700 underline-offset-4 hover:underline dark:text-orange-300 shrink-0">
+          View problem →
+        </Link>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,43 @@
+import { ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { RedactionReportEntry } from "@/lib/redaction";
+
+interface Props {
+  report: RedactionReportEntry[];
+}
+
+/** Lines listed per detector before the rest are summarised */
+const MAX_LINES = 8;
+
+// Only detector names, counts and line numbers are shown; the redacted values never reach the UI
+export function RedactionReportCard({ report }: Props) {
+  const total = report.reduce((n, e) => n + e.count, 0);
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary" /> Redaction Report
+          <span className="text-xs font-normal text-muted-foreground">
+            {total === 0 ? "nothing sensitive found" : `${total} value${total === 1 ? "" : "s"} will be masked before analysis`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      {total > 0 && (
+        <CardContent className="space-y-1.5">
+          {report.map((entry) => (
+            <div key={entry.detectorId} className="flex items-center gap-2 text-xs">
+              <Badge variant="outline" className="text-[10px]">{entry.count}</Badge>
+              <span className="font-medium text-foreground">{entry.label}</span>
+              <span className="truncate text-muted-foreground">
+                line{entry.lines.length === 1 ? "" : "s"} {entry.lines.slice(0, MAX_LINES).join(", ")}
+                {entry.lines.length > MAX_LINES ? ` +${entry.lines.length - MAX_LINES} more` : ""}
+              </span>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
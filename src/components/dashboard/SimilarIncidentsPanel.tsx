@@ -1,12 +1,21 @@
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { AlertCircle, Clock, ExternalLink } from "lucide-react";
+import { AlertCircle, ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Clock, ExternalLink, Loader2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import type { SimilarIncident } from "@/lib/similarityEngine";
+import {
+  findSimilarIncidents, IncidentComparison, SIMILAR_INCIDENTS_PAGE_SIZE, SimilarIncidentPage, SimilarityQuery,
+} from "@/lib/similarityEngine";
+import { SimilarityBreakdown } from "@/components/dashboard/SimilarityBreakdown";
 
 interface Props {
-  incidents: SimilarIncident[];
+  query: SimilarityQuery;
+  /** First page, already fetched during analysis */
+  initialPage: SimilarIncidentPage;
+  /** The analysis being matched, for side-by-side comparison */
+  current: IncidentComparison;
 }
 
 function formatDate(dateStr: string) {
@@ -15,15 +24,32 @@ function formatDate(dateStr: string) {
   }).format(new Date(dateStr));
 }
 
-export function SimilarIncidentsPanel({ incidents }: Props) {
+export function SimilarIncidentsPanel({ query, initialPage, current }: Props) {
   const navigate = useNavigate();
+  const [pageData, setPageData] = useState(initialPage);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const pageCount = Math.ceil(pageData.total / SIMILAR_INCIDENTS_PAGE_SIZE);
+  const incidents = pageData.incidents;
+
+  useEffect(() => {
+    setPageData(initialPage);
+  }, [initialPage]);
+
+  const goToPage = async (page: number) => {
+    setLoading(true);
+    setExpanded(null);
+    setPageData(await findSimilarIncidents(query, page));
+    setLoading(false);
+  };
 
   return (
     <Card className="border-warning/30 bg-warning/5">
       <CardHeader className="pb-2">
         <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
           <AlertCircle className="h-4 w-4 text-warning" />
-          Similar Past Incidents ({incidents.length})
+          Similar Past Incidents ({pageData.total})
+          {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-3">
@@ -43,7 +69,7 @@ export function SimilarIncidentsPanel({ incidents }: Props) {
                 <Badge variant="outline" className={cn("text-xs",
                   inc.similarityScore >= 70 ? "bg-destructive/15 text-destructive border-destructive/30" :
                   "bg-yellow-500/15 text-yellow-700 border-yellow-500/30 dark:text-yellow-400"
-                )}>
+                )} title={`Stack trace overlap: ${Math.round(inc.traceSimilarity * 100)}%`}>
                   {inc.similarityScore}% match
                 </Badge>
                 <Badge variant="outline" className={cn("text-xs",
@@ -60,17 +86,50 @@ export function SimilarIncidentsPanel({ incidents }: Props) {
               {inc.ai_summary || inc.root_cause_summary?.substring(0, 120) || "No summary"}
             </p>
 
+            {inc.matchReasons.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {inc.matchReasons.map((reason) => (
+                  <Badge key={reason} variant="secondary" className="text-[10px] font-normal">{reason}</Badge>
+                ))}
+              </div>
+            )}
+
             {inc.resolution_notes && (
               <p className="text-xs text-muted-foreground mt-1">
                 <span className="font-medium">Resolution: </span>{inc.resolution_notes}
               </p>
             )}
 
-            <div className="flex items-center gap-1 mt-2 text-xs text-primary">
-              <ExternalLink className="h-3 w-3" /> View full details
+            <div className="flex items-center gap-4 mt-2 text-xs text-primary">
+              <span className="flex items-center gap-1"><ExternalLink className="h-3 w-3" /> View full details</span>
+              <button
+                className="flex items-center gap-1 hover:underline"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setExpanded(expanded === inc.id ? null : inc.id);
+                }}
+              >
+                {expanded === inc.id ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />} Why this match?
+              </button>
             </div>
+
+            {expanded === inc.id && <SimilarityBreakdown incident={inc} current={current} />}
           </div>
         ))}
+
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between pt-1">
+            <Button variant="outline" size="sm" className="gap-1" disabled={loading || pageData.page === 0}
+              onClick={() => goToPage(pageData.page - 1)}>
+              <ChevronLeft className="h-3 w-3" /> Previous
+            </Button>
+            <span className="text-xs text-muted-foreground">Page {pageData.page + 1} of {pageCount}</span>
+            <Button variant="outline" size="sm" className="gap-1" disabled={loading || pageData.page >= pageCount - 1}
+              onClick={() => goToPage(pageData.page + 1)}>
+              Next <ChevronRight className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  fetchIncidentComparison, IncidentComparison, SimilarIncident, SIMILARITY_SIGNAL_LABELS,
+} from "@/lib/similarityEngine";
+import { diffLines, DiffRow } from "@/lib/textDiff";
+
+interface Props {
+  incident: SimilarIncident;
+  /** Snippet and trace of the analysis being compared against */
+  current: IncidentComparison;
+}
+
+const ROW_CLASSES: Record<DiffRow["type"], [string, string]> = {
+  same: ["", ""],
+  changed: ["bg-yellow-500/10", "bg-yellow-500/10"],
+  removed: ["bg-destructive/10", ""],
+  added: ["", "bg-green-500/10"],
+};
+
+export function SimilarityBreakdown({ incident, current }: Props) {
+  const [past, setPast] = useState<IncidentComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchIncidentComparison(incident.id).then((data) => {
+      if (cancelled) return;
+      setPast(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [incident.id]);
+
+  return (
+    <div className="space-y-3 pt-2" onClick={(e) => e.stopPropagation()}>
+      <div className="space-y-1.5">
+        {incident.breakdown.map((s) => (
+          <div key={s.signal} className="grid grid-cols-[10rem_1fr_3.5rem] items-center gap-2 text-xs">
+            <span className="text-muted-foreground">{SIMILARITY_SIGNAL_LABELS[s.signal] || s.signal}</span>
+            <Progress value={s.weight > 0 ? (s.points / s.weight) * 100 : 0} className="h-1.5" />
+            <span className={cn("text-right font-mono", s.points > 0 ? "text-foreground" : "text-muted-foreground")}>
+              {s.points}/{s.weight}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" /> Loading comparison...
+        </p>
+      ) : (
+        <>
+          <SideBySideDiff title="Error snippet" left={current.error_snippet} right={past?.error_snippet ?? null} />
+          <SideBySideDiff title="Stack trace" left={current.stack_trace} right={past?.stack_trace ?? null} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function SideBySideDiff({ title, left, right }: { title: string; left: string | null; right: string | null }) {
+  if (!left && !right) return null;
+  if (!right) {
+    return <p className="text-xs text-muted-foreground">{title}: not stored for the past incident.</p>;
+  }
+  const rows = diffLines(left || "", right);
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-2 gap-2 text-xs font-medium text-foreground">
+        <span>{title}: this analysis</span>
+        <span>Past incident</span>
+      </div>
+      <div className="max-h-64 overflow-auto rounded-md border border-border font-mono text-[11px]">
+        {rows.map((row, i) => (
+          <div key={i} className="grid grid-cols-2 divide-x divide-border">
+            <pre className={cn("whitespace-pre-wrap break-all px-2 py-0.5", ROW_CLASSES[row.type][0])}>{row.left ?? ""}</pre>
+            <pre className={cn("whitespace-pre-wrap break-all px-2 py-0.5", ROW_CLASSES[row.type][1])}>{row.right ?? ""}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Layers } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { StackFrame, StackTraceBlock } from "@/lib/stackTrace";
+
+interface Props {
+  blocks: StackTraceBlock[];
+}
+
+const KIND_LABELS: Record<StackTraceBlock["kind"], string> = {
+  trace: "Exception",
+  caused_by: "Caused by",
+  suppressed: "Suppressed",
+  goroutine: "Goroutine",
+};
+
+/** Number of frames shown before a block is expanded */
+const PREVIEW_FRAMES = 5;
+
+export function StackTracePanel({ blocks }: Props) {
+  const [open, setOpen] = useState(false);
+  if (blocks.length === 0) return null;
+
+  const frameCount = blocks.reduce((n, b) => n + b.frames.length, 0);
+
+  return (
+    <Card className="shadow-sm">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-3">
+            <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <Layers className="h-4 w-4 text-primary" /> Stack Trace
+              <Badge variant="outline" className="text-xs">{blocks[0].language}</Badge>
+              <span className="text-xs font-normal text-muted-foreground">
+                {blocks.length} block{blocks.length === 1 ? "" : "s"}, {frameCount} frame{frameCount === 1 ? "" : "s"}
+              </span>
+            </CardTitle>
+            <CollapsibleTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-1">
+                {open ? <><ChevronUp className="h-3 w-3" /> Hide</> : <><ChevronDown className="h-3 w-3" /> View</>}
+              </Button>
+            </CollapsibleTrigger>
+          </div>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            {blocks.map((block) => <TraceBlock key={block.startLine} block={block} />)}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
+
+function TraceBlock({ block }: { block: StackTraceBlock }) {
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? block.frames : block.frames.slice(0, PREVIEW_FRAMES);
+  const hidden = block.frames.length - visible.length;
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 p-3 font-mono text-xs">
+      <p className="text-destructive break-all">
+        <span className="font-sans font-semibold text-foreground">{KIND_LABELS[block.kind]}: </span>
+        {block.header || "(no exception message)"}
+      </p>
+      <ol className="mt-2 space-y-0.5">
+        {visible.map((frame, i) => <FrameLine key={i} frame={frame} />)}
+      </ol>
+      {hidden > 0 && (
+        <button onClick={() => setExpanded(true)} className="mt-1 font-sans text-primary hover:underline">
+          Show {hidden} more frame{hidden === 1 ? "" : "s"}
+        </button>
+      )}
+      {block.omittedFrames > 0 && (
+        <p className="mt-1 text-muted-foreground">... {block.omittedFrames} frames omitted by runtime</p>
+      )}
+    </div>
+  );
+}
+
+function FrameLine({ frame }: { frame: StackFrame }) {
+  return (
+    <li className={cn("pl-4 break-all", frame.library ? "text-muted-foreground/70" : "text-foreground")}>
+      {frame.module && <span className="text-muted-foreground">{frame.module}.</span>}
+      <span className={cn(!frame.library && "font-semibold text-primary")}>{frame.function}</span>
+      {frame.file && (
+        <span className="text-muted-foreground"> ({frame.file}{frame.line !== null ? `:${frame.line}` : ""})</span>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,100 @@
+import { ClipboardCopy, GitCompare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  CaseChangeKind, EVALUATION_METRICS, EvaluationRun, formatComparisonReport, formatMetric, formatMetricDelta, RunComparison,
+} from "@/lib/evaluation";
+
+interface Props {
+  baseline: EvaluationRun;
+  candidate: EvaluationRun;
+  comparison: RunComparison;
+}
+
+const CHANGE_CLASSES: Record<CaseChangeKind, string> = {
+  regressed: "bg-destructive/15 text-destructive border-destructive/30",
+  mixed: "bg-orange-500/15 text-orange-600 border-orange-500/30 dark:text-orange-400",
+  improved: "bg-green-500/15 text-green-700 border-green-500/30 dark:text-green-400",
+  added: "bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-400",
+  removed: "bg-muted text-muted-foreground",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+function deltaClass(higherIsBetter: boolean, delta: number | null) {
+  if (!delta) return "text-muted-foreground";
+  return delta > 0 === higherIsBetter ? "text-green-600 dark:text-green-400" : "text-destructive";
+}
+
+export function RunComparisonCard({ baseline, candidate, comparison }: Props) {
+  const { toast } = useToast();
+  const changed = comparison.cases.filter((c) => c.kind !== "unchanged");
+
+  const copyReport = async () => {
+    await navigator.clipboard.writeText(formatComparisonReport(baseline, candidate, comparison));
+    toast({ title: "Comparison report copied as Markdown" });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base flex items-center gap-2">
+            <GitCompare className="h-4 w-4 text-primary" /> {baseline.name} → {candidate.name}
+          </CardTitle>
+          <CardDescription>
+            {comparison.sameDataset
+              ? `Both runs used ${candidate.datasetName}.`
+              : `The runs used different datasets (${baseline.datasetName}, ${candidate.datasetName}); only shared case ids compare.`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" onClick={copyReport}>
+          <ClipboardCopy className="h-4 w-4" /> Copy report
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Metric</TableHead>
+              <TableHead className="text-right">Baseline</TableHead>
+              <TableHead className="text-right">Candidate</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {comparison.metrics.map((m) => (
+              <TableRow key={m.key}>
+                <TableCell className="text-sm">{m.label}</TableCell>
+                <TableCell className="text-right text-sm">{formatMetric(m.key, m.baseline)}</TableCell>
+                <TableCell className="text-right text-sm">{formatMetric(m.key, m.candidate)}</TableCell>
+                <TableCell className={cn("text-right text-sm font-medium",
+                  deltaClass(EVALUATION_METRICS.find((e) => e.key === m.key)!.higherIsBetter, m.delta))}>
+                  {formatMetricDelta(m.key, m.delta)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-foreground">
+            {changed.length} of {comparison.cases.length} cases changed
+          </p>
+          <ul className="space-y-1">
+            {changed.map((change) => (
+              <li key={change.caseId} className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="outline" className={cn("text-xs", CHANGE_CLASSES[change.kind])}>{change.kind}</Badge>
+                <span className="font-mono text-foreground">{change.caseId}</span>
+                {change.details.length > 0 && <span className="text-muted-foreground">{change.details.join("; ")}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { ListChecks } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { CaseOutcome, EvaluationRun, ROOT_CAUSE_MATCH_THRESHOLD } from "@/lib/evaluation";
+
+function Verdict({ ok }: { ok: boolean }) {
+  return <span className={ok ? "text-green-600 dark:text-green-400" : "text-destructive"}>{ok ? "✓" : "✗"}</span>;
+}
+
+/** Each case of one run: what was expected, what the parser and model said, and which keywords matched */
+export function RunOutcomesCard({ run, outcomes }: { run: EvaluationRun; outcomes: CaseOutcome[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-primary" /> {run.name}: {outcomes.length} cases
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Case</TableHead>
+              <TableHead>Expected</TableHead>
+              <TableHead>Parser</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Root cause keywords</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {outcomes.map((o) => (
+              <TableRow key={o.caseId}>
+                <TableCell className="font-mono text-xs">{o.caseId}</TableCell>
+                <TableCell className="text-xs">{o.expectedErrorType}</TableCell>
+                <TableCell className="text-xs"><Verdict ok={o.parserCorrect} /> {o.detectedErrorType}</TableCell>
+                <TableCell className="text-xs max-w-[200px]">
+                  {o.error ? (
+                    <span className="text-destructive" title={o.error}>Failed: {o.error}</span>
+                  ) : (
+                    <><Verdict ok={o.modelCorrect} /> {o.predictedErrorType}</>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs max-w-[320px]" title={o.rootCauseSummary ?? undefined}>
+                  <span className={cn("font-medium", o.rootCauseScore >= ROOT_CAUSE_MATCH_THRESHOLD ? "text-foreground" : "text-destructive")}>
+                    {o.matchedKeywords.length}/{o.expectedKeywords.length}
+                  </span>{" "}
+                  <span className="text-muted-foreground">
+                    {o.expectedKeywords.map((k) => (o.matchedKeywords.includes(k) ? k : `(${k})`)).join(", ")}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Cpu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useLLMSettings } from "@/hooks/use-llm-settings";
+import { LLM_PROVIDERS, saveLLMSettings } from "@/lib/llmSettings";
+
+const DEFAULT_PROVIDER = "default";
+
+export function LLMProviderSettingsCard() {
+  const { settings, refresh } = useLLMSettings();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [provider, setProvider] = useState(DEFAULT_PROVIDER);
+  const [model, setModel] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setProvider(settings.provider || DEFAULT_PROVIDER);
+    setModel(settings.model || "");
+  }, [settings]);
+
+  const saveSettings = async () => {
+    if (!user) return;
+    setSaving(true);
+    const { error } = await saveLLMSettings(user.id, {
+      provider: provider === DEFAULT_PROVIDER ? null : provider,
+      model: provider === DEFAULT_PROVIDER ? null : model.trim() || null,
+    });
+    if (error) {
+      toast({ title: "Failed to save AI provider", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "AI provider saved" });
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  const selected = LLM_PROVIDERS.find((p) => p.id === provider);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Cpu className="h-4 w-4 text-primary" />
+          AI Provider
+        </CardTitle>
+        <CardDescription>
+          Model used to analyze your logs. Providers without credentials on this deployment fall back to the default.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_PROVIDER}>Deployment default</SelectItem>
+                {LLM_PROVIDERS.map((p) => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-model">Model</Label>
+            <Input id="llm-model" value={model} onChange={(e) => setModel(e.target.value)}
+              placeholder={selected ? selected.modelHint : "Provider default"} disabled={provider === DEFAULT_PROVIDER} />
+          </div>
+        </div>
+        <Button size="sm" onClick={saveSettings} disabled={saving}>{saving ? "Saving..." : "Save Settings"}</Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Archive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useLogStorageSettings } from "@/hooks/use-log-storage-settings";
+import { saveLogStorageSettings } from "@/lib/logStorage";
+
+export function LogStorageSettingsCard() {
+  const { settings, refresh } = useLogStorageSettings();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [keepOriginal, setKeepOriginal] = useState(false);
+  const [retentionDays, setRetentionDays] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setKeepOriginal(settings.keep_encrypted_original);
+    setRetentionDays(settings.retention_days ? String(settings.retention_days) : "");
+  }, [settings]);
+
+  const saveSettings = async () => {
+    if (!user) return;
+    const days = retentionDays.trim() ? Number(retentionDays) : null;
+    if (days !== null && (!Number.isInteger(days) || days < 1)) {
+      toast({ title: "Retention must be a whole number of days", variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await saveLogStorageSettings(user.id, { keep_encrypted_original: keepOriginal, retention_days: days });
+    if (error) {
+      toast({ title: "Failed to save storage settings", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Storage settings saved" });
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Archive className="h-4 w-4 text-primary" />
+          Log Storage & Retention
+        </CardTitle>
+        <CardDescription>Only the redacted log is stored in plain text. Analysis results are always kept.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="keep-original">Keep encrypted original</Label>
+            <p className="text-xs text-muted-foreground">Store the unredacted log encrypted with a key unique to your account</p>
+          </div>
+          <Switch id="keep-original" checked={keepOriginal} onCheckedChange={setKeepOriginal} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="retention-days">Purge raw logs after (days)</Label>
+          <Input id="retention-days" type="number" min={1} className="w-40" placeholder="Keep forever"
+            value={retentionDays} onChange={(e) => setRetentionDays(e.target.value)} />
+        </div>
+        <Button size="sm" onClick={saveSettings} disabled={saving}>{saving ? "Saving..." : "Save Settings"}</Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { ShieldCheck, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useRedactionPolicy } from "@/hooks/use-redaction-policy";
+import { CustomRedactionPattern, REDACTION_DETECTORS, RedactionCategory } from "@/lib/redaction";
+import { saveRedactionPolicy } from "@/lib/redactionPolicies";
+import { compilePattern } from "@/lib/taxonomyRules";
+
+const CATEGORY_LABELS: Record<RedactionCategory, string> = {
+  credential: "Credentials & secrets",
+  personal: "Personal data",
+  network: "Network identifiers",
+};
+
+export function RedactionPolicyEditor() {
+  const { policy, refresh } = useRedactionPolicy();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [disabled, setDisabled] = useState<string[]>([]);
+  const [allowList, setAllowList] = useState("");
+  const [custom, setCustom] = useState<CustomRedactionPattern[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDisabled(policy.disabledDetectors);
+    setAllowList(policy.allowList.join("\n"));
+    setCustom(policy.customPatterns);
+  }, [policy]);
+
+  const invalidCustom = custom.filter((p) => p.pattern && !compilePattern(p.pattern));
+
+  const toggleDetector = (id: string, enabled: boolean) => {
+    setDisabled((prev) => (enabled ? prev.filter((d) => d !== id) : [...prev, id]));
+  };
+
+  const updateCustom = (index: number, patch: Partial<CustomRedactionPattern>) => {
+    setCustom((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)));
+  };
+
+  const savePolicy = async () => {
+    if (!user) return;
+    if (invalidCustom.length > 0) {
+      toast({ title: "Fix invalid patterns before saving", description: invalidCustom.map((p) => p.name).join(", "), variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const { error } = await saveRedactionPolicy(user.id, {
+      disabledDetectors: disabled,
+      allowList: allowList.split("\n").map((v) => v.trim()).filter(Boolean),
+      customPatterns: custom.filter((p) => p.name.trim() && p.pattern.trim()).map((p) => ({ name: p.name.trim(), pattern: p.pattern })),
+    });
+    if (error) {
+      toast({ title: "Failed to save redaction policy", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Redaction policy saved" });
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-primary" />
+          Redaction Policy
+        </CardTitle>
+        <CardDescription>Choose what is masked in your logs before they are analyzed or sent to the AI</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {(Object.keys(CATEGORY_LABELS) as RedactionCategory[]).map((category) => (
+          <div key={category} className="space-y-2">
+            <p className="text-sm font-medium text-foreground">{CATEGORY_LABELS[category]}</p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {REDACTION_DETECTORS.filter((d) => d.category === category).map((detector) => (
+                <div key={detector.id} className="flex items-center justify-between gap-2 rounded-md border border-border px-3 py-2">
+                  <Label htmlFor={`detector-${detector.id}`} className="text-xs font-normal">{detector.label}</Label>
+                  <Switch id={`detector-${detector.id}`} checked={!disabled.includes(detector.id)}
+                    onCheckedChange={(v) => toggleDetector(detector.id, v)} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="redaction-allow-list">Allow-list (one per line; wrap in /slashes/ for a regex)</Label>
+          <Textarea id="redaction-allow-list" className="min-h-[70px] font-mono text-xs" placeholder={"10.0.0.1\n/@example\\.com$/"}
+            value={allowList} onChange={(e) => setAllowList(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Custom patterns</Label>
+          {custom.map((p, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input className="h-8 w-40 text-xs" placeholder="Name" value={p.name}
+                onChange={(e) => updateCustom(i, { name: e.target.value })} />
+              <Input className="h-8 flex-1 font-mono text-xs" placeholder="cust-\d{8}" value={p.pattern}
+                onChange={(e) => updateCustom(i, { pattern: e.target.value })} />
+              <Button variant="ghost" size="sm" onClick={() => setCustom(custom.filter((_, j) => j !== i))}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {invalidCustom.length > 0 && (
+            <p className="text-xs text-destructive">Invalid regex: {invalidCustom.map((p) => p.pattern).join(", ")}</p>
+          )}
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setCustom([...custom, { name: "", pattern: "" }])}>
+            <Plus className="h-4 w-4" /> Add Pattern
+          </Button>
+        </div>
+
+        <Button size="sm" onClick={savePolicy} disabled={saving}>{saving ? "Saving..." : "Save Policy"}</Button>
+      </CardContent>
+    </Card>
+  );
+}
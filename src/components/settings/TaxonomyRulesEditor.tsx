@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { Tags, Plus, Pencil, Trash2, FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
+import { compilePattern, TAXONOMY_COLORS, TaxonomyColor, TaxonomyRule } from "@/lib/taxonomyRules";
+import { cn } from "@/lib/utils";
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  patterns: string;
+  priority: number;
+  color: TaxonomyColor;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = { id: null, name: "", patterns: "", priority: 10, color: "teal", enabled: true };
+
+function splitPatterns(text: string): string[] {
+  return text.split("\n").map((p) => p.trim()).filter(Boolean);
+}
+
+export function TaxonomyRulesEditor() {
+  const { rules, refresh } = useTaxonomyRules();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [sample, setSample] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const invalidPatterns = draft ? splitPatterns(draft.patterns).filter((p) => !compilePattern(p)) : [];
+
+  const editRule = (rule: TaxonomyRule) => {
+    setDraft({
+      id: rule.id,
+      name: rule.name,
+      patterns: rule.patterns.join("\n"),
+      priority: rule.priority,
+      color: rule.color as TaxonomyColor,
+      enabled: rule.enabled,
+    });
+  };
+
+  const saveRule = async () => {
+    if (!draft || !user) return;
+    const patterns = splitPatterns(draft.patterns);
+    if (!draft.name.trim() || patterns.length === 0) {
+      toast({ title: "A rule needs a name and at least one pattern", variant: "destructive" });
+      return;
+    }
+    if (invalidPatterns.length > 0) {
+      toast({ title: "Fix invalid patterns before saving", description: invalidPatterns.join(", "), variant: "destructive" });
+      return;
+    }
+    setSaving(true);
+    const row = {
+      user_id: user.id,
+      name: draft.name.trim(),
+      patterns,
+      priority: draft.priority,
+      color: draft.color,
+      enabled: draft.enabled,
+      updated_at: new Date().toISOString(),
+    };
+    const { error } = draft.id
+      ? await supabase.from("taxonomy_rules").update(row).eq("id", draft.id)
+      : await supabase.from("taxonomy_rules").insert(row);
+
+    if (error) {
+      toast({ title: "Failed to save rule", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: draft.id ? "Rule updated" : "Rule created" });
+      setDraft(null);
+      refresh();
+    }
+    setSaving(false);
+  };
+
+  const toggleRule = async (rule: TaxonomyRule, enabled: boolean) => {
+    const { error } = await supabase.from("taxonomy_rules").update({ enabled }).eq("id", rule.id);
+    if (error) toast({ title: "Failed to update rule", variant: "destructive" });
+    else refresh();
+  };
+
+  const deleteRule = async (rule: TaxonomyRule) => {
+    const { error } = await supabase.from("taxonomy_rules").delete().eq("id", rule.id);
+    if (error) toast({ title: "Failed to delete rule", variant: "destructive" });
+    else refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Tags className="h-4 w-4 text-primary" />
+          Error Taxonomy Rules
+        </CardTitle>
+        <CardDescription>Teach the parser about error types specific to your pipelines</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && !draft && (
+          <p className="text-sm text-muted-foreground">No custom rules yet. Built-in error types are always detected.</p>
+        )}
+
+        {rules.map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border border-border p-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={cn("text-xs", TAXONOMY_COLORS[rule.color as TaxonomyColor])}>{rule.name}</Badge>
+                <span className="text-xs text-muted-foreground">Priority {rule.priority}</span>
+              </div>
+              <p className="truncate font-mono text-xs text-muted-foreground">{rule.patterns.join("  |  ")}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Switch checked={rule.enabled} onCheckedChange={(v) => toggleRule(rule, v)} />
+              <Button variant="ghost" size="sm" onClick={() => editRule(rule)}><Pencil className="h-3 w-3" /></Button>
+              <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}><Trash2 className="h-3 w-3" /></Button>
+            </div>
+          </div>
+        ))}
+
+        {draft ? (
+          <div className="space-y-4 rounded-lg border border-border bg-muted/20 p-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2 sm:col-span-3">
+                <Label htmlFor="rule-name">Error type name</Label>
+                <Input id="rule-name" placeholder="DeltaConcurrentModificationException" value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Input id="rule-priority" type="number" value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) || 0 })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Colour</Label>
+                <Select value={draft.color} onValueChange={(v) => setDraft({ ...draft, color: v as TaxonomyColor })}>
+                  <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TAXONOMY_COLORS) as TaxonomyColor[]).map((c) => (
+                      <SelectItem key={c} value={c}>{c}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch id="rule-enabled" checked={draft.enabled} onCheckedChange={(v) => setDraft({ ...draft, enabled: v })} />
+                <Label htmlFor="rule-enabled">Enabled</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-patterns">Regex patterns (one per line, case-insensitive)</Label>
+              <Textarea id="rule-patterns" className="min-h-[80px] font-mono text-xs" placeholder="ConcurrentModificationException.*delta"
+                value={draft.patterns} onChange={(e) => setDraft({ ...draft, patterns: e.target.value })} />
+              {invalidPatterns.length > 0 && (
+                <p className="text-xs text-destructive">Invalid regex: {invalidPatterns.join(", ")}</p>
+              )}
+            </div>
+
+            <RegexTester patterns={splitPatterns(draft.patterns)} sample={sample} onSampleChange={setSample} />
+
+            <div className="flex gap-2">
+              <Button size="sm" onClick={saveRule} disabled={saving}>{saving ? "Saving..." : "Save Rule"}</Button>
+              <Button size="sm" variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setDraft(EMPTY_DRAFT)}>
+            <Plus className="h-4 w-4" /> Add Rule
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RegexTester({ patterns, sample, onSampleChange }: {
+  patterns: string[]; sample: string; onSampleChange: (v: string) => void;
+}) {
+  const compiled = patterns.map(compilePattern).filter((p): p is RegExp => p !== null);
+  const matchedLines = sample
+    .split("\n")
+    .map((line, i) => ({ line, number: i + 1 }))
+    .filter(({ line }) => compiled.some((p) => p.test(line)));
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="rule-sample" className="flex items-center gap-1.5">
+        <FlaskConical className="h-3.5 w-3.5" /> Test against a sample log
+      </Label>
+      <Textarea id="rule-sample" className="min-h-[80px] font-mono text-xs" placeholder="Paste log lines to test your patterns..."
+        value={sample} onChange={(e) => onSampleChange(e.target.value)} />
+      {sample.trim() && (
+        <div className="rounded-md border border-border bg-card p-2 space-y-1">
+          <p className="text-xs font-medium text-foreground">
+            {matchedLines.length} matching line{matchedLines.length === 1 ? "" : "s"}
+          </p>
+          {matchedLines.slice(0, 10).map(({ line, number }) => (
+            <p key={number} className="truncate font-mono text-xs text-muted-foreground">
+              <span className="text-primary">{number}:</span> {line}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
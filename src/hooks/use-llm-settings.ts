@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_LLM_SETTINGS, fetchLLMSettings, LLMSettings } from "@/lib/llmSettings";
+
+export function useLLMSettings() {
+  const [settings, setSettings] = useState<LLMSettings>(DEFAULT_LLM_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setSettings(await fetchLLMSettings(user.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { settings, loading, refresh };
+}
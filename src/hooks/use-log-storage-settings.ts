@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_LOG_STORAGE_SETTINGS, fetchLogStorageSettings, LogStorageSettings } from "@/lib/logStorage";
+
+export function useLogStorageSettings() {
+  const [settings, setSettings] = useState<LogStorageSettings>(DEFAULT_LOG_STORAGE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setSettings(await fetchLogStorageSettings(user.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { settings, loading, refresh };
+}
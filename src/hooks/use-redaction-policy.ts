@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { DEFAULT_REDACTION_POLICY, RedactionPolicy } from "@/lib/redaction";
+import { fetchRedactionPolicy } from "@/lib/redactionPolicies";
+
+export function useRedactionPolicy() {
+  const [policy, setPolicy] = useState<RedactionPolicy>(DEFAULT_REDACTION_POLICY);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setPolicy(await fetchRedactionPolicy(user.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { policy, loading, refresh };
+}
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { fetchTaxonomyRules, TaxonomyRule } from "@/lib/taxonomyRules";
+
+export function useTaxonomyRules() {
+  const [rules, setRules] = useState<TaxonomyRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  const refresh = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    setRules(await fetchTaxonomyRules(user.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { rules, loading, refresh };
+}
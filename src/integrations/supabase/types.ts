@@ -14,6 +14,170 @@ export type Database = {
   }
   public: {
     Tables: {
+      analysis_cache: {
+        Row: {
+          analysis: Json
+          cache_key: string
+          created_at: string
+          hits: number
+          last_hit_at: string | null
+          model: string
+          prompt_version: string
+          provenance: Json | null
+          provider: string
+          user_id: string
+        }
+        Insert: {
+          analysis: Json
+          cache_key: string
+          created_at?: string
+          hits?: number
+          last_hit_at?: string | null
+          model: string
+          prompt_version: string
+          provenance?: Json | null
+          provider: string
+          user_id: string
+        }
+        Update: {
+          analysis?: Json
+          cache_key?: string
+          created_at?: string
+          hits?: number
+          last_hit_at?: string | null
+          model?: string
+          prompt_version?: string
+          provenance?: Json | null
+          provider?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      evaluation_results: {
+        Row: {
+          case_id: string
+          completion_tokens: number | null
+          detected_error_type: string
+          duration_ms: number | null
+          error: string | null
+          expected_error_type: string
+          expected_keywords: string[]
+          id: string
+          matched_keywords: string[]
+          model_correct: boolean
+          parser_correct: boolean
+          predicted_error_type: string | null
+          prompt_tokens: number | null
+          root_cause_score: number
+          root_cause_summary: string | null
+          run_id: string
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          completion_tokens?: number | null
+          detected_error_type: string
+          duration_ms?: number | null
+          error?: string | null
+          expected_error_type: string
+          expected_keywords?: string[]
+          id?: string
+          matched_keywords?: string[]
+          model_correct: boolean
+          parser_correct: boolean
+          predicted_error_type?: string | null
+          prompt_tokens?: number | null
+          root_cause_score?: number
+          root_cause_summary?: string | null
+          run_id: string
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          completion_tokens?: number | null
+          detected_error_type?: string
+          duration_ms?: number | null
+          error?: string | null
+          expected_error_type?: string
+          expected_keywords?: string[]
+          id?: string
+          matched_keywords?: string[]
+          model_correct?: boolean
+          parser_correct?: boolean
+          predicted_error_type?: string | null
+          prompt_tokens?: number | null
+          root_cause_score?: number
+          root_cause_summary?: string | null
+          run_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluation_results_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "evaluation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluation_runs: {
+        Row: {
+          case_count: number
+          completion_tokens: number | null
+          created_at: string
+          dataset_name: string
+          failed_count: number
+          id: string
+          llm_model: string | null
+          llm_provider: string | null
+          model_accuracy: number | null
+          name: string
+          parser_accuracy: number | null
+          prompt_tokens: number | null
+          prompt_version: string | null
+          root_cause_match_rate: number | null
+          root_cause_score: number | null
+          user_id: string
+        }
+        Insert: {
+          case_count?: number
+          completion_tokens?: number | null
+          created_at?: string
+          dataset_name: string
+          failed_count?: number
+          id?: string
+          llm_model?: string | null
+          llm_provider?: string | null
+          model_accuracy?: number | null
+          name: string
+          parser_accuracy?: number | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
+          root_cause_match_rate?: number | null
+          root_cause_score?: number | null
+          user_id: string
+        }
+        Update: {
+          case_count?: number
+          completion_tokens?: number | null
+          created_at?: string
+          dataset_name?: string
+          failed_count?: number
+          id?: string
+          llm_model?: string | null
+          llm_provider?: string | null
+          model_accuracy?: number | null
+          name?: string
+          parser_accuracy?: number | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
+          root_cause_match_rate?: number | null
+          root_cause_score?: number | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       incident_feedback: {
         Row: {
           comment: string | null
@@ -56,21 +220,43 @@ export type Database = {
         Row: {
           affected_service: string | null
           ai_summary: string | null
+          analysis_cache_key: string | null
+          cleaned_log: string | null
+          completion_tokens: number | null
           confidence_reasoning: string | null
           confidence_score: number | null
           created_at: string
+          detected_errors: Json
+          embedding: string | null
+          embedding_model: string | null
           environment: string | null
+          error_snippet: string | null
           error_type: string | null
+          evidence: Json | null
+          feedback_lesson_ids: string[]
           file_name: string | null
+          fingerprint: string | null
           id: string
           impact_scope: string | null
+          legacy_stack_trace_hash: string | null
+          llm_model: string | null
+          llm_provider: string | null
+          llm_temperature: number | null
           log_analysis_id: string | null
           long_term_prevention: string | null
+          problem_id: string | null
+          prompt_tokens: number | null
+          prompt_version: string | null
           raw_log: string | null
+          raw_log_encrypted: string | null
+          raw_log_purged_at: string | null
           recommended_fix_steps: string | null
           resolution_notes: string | null
           root_cause_summary: string | null
           service_name: string | null
+          stack_minhash: number[] | null
+          stack_minhash_bands: string[] | null
+          stack_trace: string | null
           stack_trace_hash: string | null
           status: string
           user_id: string
@@ -78,21 +264,43 @@ export type Database = {
         Insert: {
           affected_service?: string | null
           ai_summary?: string | null
+          analysis_cache_key?: string | null
+          cleaned_log?: string | null
+          completion_tokens?: number | null
           confidence_reasoning?: string | null
           confidence_score?: number | null
           created_at?: string
+          detected_errors?: Json
+          embedding?: string | null
+          embedding_model?: string | null
           environment?: string | null
+          error_snippet?: string | null
           error_type?: string | null
+          evidence?: Json | null
+          feedback_lesson_ids?: string[]
           file_name?: string | null
+          fingerprint?: never
           id?: string
           impact_scope?: string | null
+          legacy_stack_trace_hash?: string | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          llm_temperature?: number | null
           log_analysis_id?: string | null
           long_term_prevention?: string | null
+          problem_id?: string | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
           raw_log?: string | null
+          raw_log_encrypted?: string | null
+          raw_log_purged_at?: string | null
           recommended_fix_steps?: string | null
           resolution_notes?: string | null
           root_cause_summary?: string | null
           service_name?: string | null
+          stack_minhash?: number[] | null
+          stack_minhash_bands?: never
+          stack_trace?: string | null
           stack_trace_hash?: string | null
           status?: string
           user_id: string
@@ -100,21 +308,43 @@ export type Database = {
         Update: {
           affected_service?: string | null
           ai_summary?: string | null
+          analysis_cache_key?: string | null
+          cleaned_log?: string | null
+          completion_tokens?: number | null
           confidence_reasoning?: string | null
           confidence_score?: number | null
           created_at?: string
+          detected_errors?: Json
+          embedding?: string | null
+          embedding_model?: string | null
           environment?: string | null
+          error_snippet?: string | null
           error_type?: string | null
+          evidence?: Json | null
+          feedback_lesson_ids?: string[]
           file_name?: string | null
+          fingerprint?: never
           id?: string
           impact_scope?: string | null
+          legacy_stack_trace_hash?: string | null
+          llm_model?: string | null
+          llm_provider?: string | null
+          llm_temperature?: number | null
           log_analysis_id?: string | null
           long_term_prevention?: string | null
+          problem_id?: string | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
           raw_log?: string | null
+          raw_log_encrypted?: string | null
+          raw_log_purged_at?: string | null
           recommended_fix_steps?: string | null
           resolution_notes?: string | null
           root_cause_summary?: string | null
           service_name?: string | null
+          stack_minhash?: number[] | null
+          stack_minhash_bands?: never
+          stack_trace?: string | null
           stack_trace_hash?: string | null
           status?: string
           user_id?: string
@@ -127,50 +357,380 @@ export type Database = {
             referencedRelation: "log_analyses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "incidents_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: false
+            referencedRelation: "problems"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      llm_settings: {
+        Row: {
+          model: string | null
+          provider: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          model?: string | null
+          provider?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          model?: string | null
+          provider?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       log_analyses: {
         Row: {
           business_impact: string | null
+          completion_tokens: number | null
           created_at: string
           detected_error_type: string | null
+          feedback_lesson_ids: string[]
           file_name: string | null
           id: string
-          raw_log: string
+          llm_model: string | null
+          llm_provider: string | null
+          llm_temperature: number | null
+          prompt_tokens: number | null
+          prompt_version: string | null
+          raw_log: string | null
+          raw_log_encrypted: string | null
+          raw_log_purged_at: string | null
           root_cause_summary: string | null
           suggested_fix: string | null
           user_id: string
         }
         Insert: {
           business_impact?: string | null
+          completion_tokens?: number | null
           created_at?: string
           detected_error_type?: string | null
+          feedback_lesson_ids?: string[]
           file_name?: string | null
           id?: string
-          raw_log: string
+          llm_model?: string | null
+          llm_provider?: string | null
+          llm_temperature?: number | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
+          raw_log?: string | null
+          raw_log_encrypted?: string | null
+          raw_log_purged_at?: string | null
           root_cause_summary?: string | null
           suggested_fix?: string | null
           user_id: string
         }
         Update: {
           business_impact?: string | null
+          completion_tokens?: number | null
           created_at?: string
           detected_error_type?: string | null
+          feedback_lesson_ids?: string[]
           file_name?: string | null
           id?: string
-          raw_log?: string
+          llm_model?: string | null
+          llm_provider?: string | null
+          llm_temperature?: number | null
+          prompt_tokens?: number | null
+          prompt_version?: string | null
+          raw_log?: string | null
+          raw_log_encrypted?: string | null
+          raw_log_purged_at?: string | null
           root_cause_summary?: string | null
           suggested_fix?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      log_storage_settings: {
+        Row: {
+          keep_encrypted_original: boolean
+          retention_days: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          keep_encrypted_original?: boolean
+          retention_days?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          keep_encrypted_original?: boolean
+          retention_days?: number | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      problems: {
+        Row: {
+          affected_services: string[]
+          created_at: string
+          error_type: string | null
+          fingerprints: string[]
+          first_seen: string
+          id: string
+          last_seen: string
+          notes: string | null
+          occurrence_count: number
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          affected_services?: string[]
+          created_at?: string
+          error_type?: string | null
+          fingerprints?: string[]
+          first_seen?: string
+          id?: string
+          last_seen?: string
+          notes?: string | null
+          occurrence_count?: number
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          affected_services?: string[]
+          created_at?: string
+          error_type?: string | null
+          fingerprints?: string[]
+          first_seen?: string
+          id?: string
+          last_seen?: string
+          notes?: string | null
+          occurrence_count?: number
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      redaction_policies: {
+        Row: {
+          allow_list: string[]
+          custom_patterns: Json
+          disabled_detectors: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          allow_list?: string[]
+          custom_patterns?: Json
+          disabled_detectors?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          allow_list?: string[]
+          custom_patterns?: Json
+          disabled_detectors?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      taxonomy_rules: {
+        Row: {
+          color: string
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          patterns: string[]
+          priority: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          patterns?: string[]
+          priority?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          patterns?: string[]
+          priority?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_encryption_keys: {
+        Row: {
+          created_at: string
+          key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          key?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      decrypt_raw_log: {
+        Args: { _analysis_id?: string; _incident_id?: string }
+        Returns: string
+      }
+      find_feedback_lessons: {
+        Args: {
+          _embedding?: string
+          _embedding_model?: string
+          _error_type: string
+          _legacy_stack_trace_hash?: string
+          _limit?: number
+          _min_score?: number
+          _service_name: string
+          _stack_minhash: number[]
+          _stack_trace_hash: string
+          _user_id: string
+        }
+        Returns: {
+          comment: string
+          confirmations: number
+          created_at: string
+          id: string
+          incident_id: string
+          match_reasons: string[]
+          section_name: string
+          similarity_score: number
+        }[]
+      }
+      find_known_resolution: {
+        Args: {
+          _error_type: string
+          _legacy_stack_trace_hash?: string
+          _service_name: string
+          _stack_minhash: number[]
+          _stack_trace_hash: string
+        }
+        Returns: {
+          affected_service: string
+          ai_summary: string
+          created_at: string
+          id: string
+          impact_scope: string
+          long_term_prevention: string
+          problem_id: string
+          recommended_fix_steps: string
+          resolution_notes: string
+          root_cause_summary: string
+          trace_similarity: number
+        }[]
+      }
+      find_or_create_problem: {
+        Args: {
+          _error_type: string
+          _fingerprint: string
+          _seen_at: string
+          _service_name: string
+          _stack_minhash: number[]
+          _user_id: string
+        }
+        Returns: string
+      }
+      incident_fingerprint: {
+        Args: {
+          _error_type: string
+          _service_name: string
+          _stack_trace_hash: string
+        }
+        Returns: string
+      }
+      merge_problems: {
+        Args: { _source_ids: string[]; _target_id: string }
+        Returns: undefined
+      }
+      minhash_bands: {
+        Args: { _signature: number[] }
+        Returns: string[]
+      }
+      minhash_similarity: {
+        Args: { _a: number[]; _b: number[] }
+        Returns: number
+      }
+      purge_expired_raw_logs: {
+        Args: never
+        Returns: number
+      }
+      refresh_problem_stats: {
+        Args: { _problem_id: string }
+        Returns: undefined
+      }
+      search_similar_incidents: {
+        Args: {
+          _embedding?: string
+          _embedding_model?: string
+          _environment?: string
+          _error_type: string
+          _exclude_id?: string
+          _legacy_stack_trace_hash?: string
+          _limit?: number
+          _offset?: number
+          _service_name: string
+          _stack_minhash: number[]
+          _stack_trace_hash: string
+        }
+        Returns: {
+          ai_summary: string
+          breakdown: Json
+          created_at: string
+          environment: string
+          error_type: string
+          id: string
+          match_reasons: string[]
+          resolution_notes: string
+          root_cause_summary: string
+          semantic_similarity: number
+          service_name: string
+          similarity_score: number
+          status: string
+          total_count: number
+          trace_similarity: number
+        }[]
+      }
+      split_problem: {
+        Args: { _incident_ids: string[]; _problem_id: string }
+        Returns: string
+      }
+      store_encrypted_raw_log: {
+        Args: { _analysis_id: string; _incident_id: string; _raw_log: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
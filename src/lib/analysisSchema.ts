@@ -0,0 +1,3 @@
+// Shared with the analyze edge function, which validates replies against the same schema
+export * from "../../supabase/functions/_shared/analysisSchema.ts";
+export { parsePartialJSON } from "../../supabase/functions/_shared/partialJson.ts";
@@ -0,0 +1,159 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Analysis, AnalysisErrorBody, AnalysisErrorCode, ANALYSIS_FIELDS, AnalyzeResponse, FieldIssue, normalizeText,
+  parsePartialJSON,
+} from "@/lib/analysisSchema";
+import type { ParsedLog } from "@/lib/logParser";
+import { assembleContext } from "@/lib/contextAssembly";
+
+/** A failed analysis, with the code and field issues the analyze function reported */
+export class AnalysisError extends Error {
+  code: AnalysisErrorCode;
+  status: number;
+  issues: FieldIssue[];
+
+  constructor(body: AnalysisErrorBody) {
+    super(body.error);
+    this.name = "AnalysisError";
+    this.code = body.code;
+    this.status = body.status;
+    this.issues = body.issues ?? [];
+  }
+}
+
+function isErrorBody(value: unknown): value is AnalysisErrorBody {
+  return !!value && typeof value === "object" && typeof (value as AnalysisErrorBody).error === "string";
+}
+
+/** Older deployments reply with { error, status } only */
+function toAnalysisError(body: AnalysisErrorBody): AnalysisError {
+  const code = body.code ?? (body.status === 429 ? "rate_limited" : body.status === 402 ? "usage_limited" : "provider_error");
+  return new AnalysisError({ ...body, code });
+}
+
+/** The fields of a streaming reply so far, tidied for display; nothing here is validated yet */
+function partialAnalysis(raw: Record<string, unknown>): Partial<Analysis> {
+  const partial: Record<string, unknown> = {};
+  for (const field of ANALYSIS_FIELDS) {
+    const value = raw[field];
+    if (typeof value === "string") partial[field] = normalizeText(value);
+    else if (Array.isArray(value)) partial[field] = value.filter((v) => typeof v === "string").map(normalizeText);
+  }
+  return partial as Partial<Analysis>;
+}
+
+/** The parsed-log part of an analyze request; callers add the user, cache and known-fix fields */
+export function analysisRequestBody(parsed: ParsedLog, tokenBudget: number): Record<string, unknown> {
+  const context = assembleContext(parsed, tokenBudget);
+  return {
+    detectedErrorType: parsed.detectedErrorType,
+    detectedErrors: parsed.detectedErrors.map(({ type, role, matchCount, fatal }) => ({ type, role, matchCount, fatal })),
+    errorSnippet: parsed.errorSnippet,
+    context: { sections: context.sections.map(({ id, title, content }) => ({ id, title, content })) },
+    tokenBudget,
+    logSummary: parsed.logSummary,
+    serviceName: parsed.serviceName,
+    environment: parsed.environment,
+    requestId: parsed.requestId,
+  };
+}
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+      }
+      yield { event, data: data.join("\n") };
+    }
+  }
+}
+
+async function invokeStreaming(
+  body: Record<string, unknown>,
+  onPartial: (partial: Partial<Analysis>) => void,
+): Promise<AnalyzeResponse | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const apiKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: apiKey,
+      Authorization: `Bearer ${session?.access_token ?? apiKey}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  // Errors raised before the stream starts, and deployments that don't stream, reply with JSON
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const reply = await response.json();
+    if (isErrorBody(reply)) throw toAnalysisError(reply);
+    return reply;
+  }
+  if (!response.body) return null;
+
+  let text = "";
+  for await (const { event, data } of readEvents(response.body)) {
+    if (event === "delta") {
+      text += JSON.parse(data).text;
+      const partial = parsePartialJSON(text);
+      if (partial && typeof partial === "object" && !Array.isArray(partial)) {
+        onPartial(partialAnalysis(partial as Record<string, unknown>));
+      }
+    } else if (event === "result") {
+      return JSON.parse(data);
+    } else if (event === "error") {
+      throw toAnalysisError(JSON.parse(data));
+    }
+  }
+  // The stream ended without a result
+  return null;
+}
+
+/**
+ * Run the analyze function as a server-sent event stream, reporting each
+ * partial parse of the reply as it arrives. If the stream breaks before the
+ * final result, the analysis is requested again without streaming. Cache hits
+ * arrive as a single JSON reply. Failures reported by the function are thrown
+ * as AnalysisError.
+ */
+export async function streamAnalysis(
+  body: Record<string, unknown>,
+  onPartial: (partial: Partial<Analysis>) => void,
+): Promise<AnalyzeResponse> {
+  try {
+    const result = await invokeStreaming(body, onPartial);
+    if (result) return result;
+    console.warn("Analysis stream ended early, retrying without streaming");
+  } catch (e) {
+    if (e instanceof AnalysisError) throw e;
+    console.warn("Analysis stream failed, retrying without streaming:", e);
+  }
+
+  const { data, error } = await supabase.functions.invoke("analyze", { body });
+  if (error) {
+    // Non-2xx replies carry the error body in the response
+    const reply = await error.context?.json?.().catch(() => null);
+    if (isErrorBody(reply)) throw toAnalysisError(reply);
+    throw new Error(error.message);
+  }
+  return data;
+}
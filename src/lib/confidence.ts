@@ -0,0 +1,141 @@
+import type { Analysis } from "@/lib/analysisSchema";
+import type { DetectedError } from "@/lib/logParser";
+import type { SimilarIncident } from "@/lib/similarityEngine";
+
+export type ConfidenceSignalId = "model" | "taxonomy" | "trace" | "similar_incidents";
+
+/** One input to the calibrated confidence */
+export interface ConfidenceSignal {
+  signal: ConfidenceSignalId;
+  /** How strongly this signal supports the analysis, 0-1 */
+  score: number;
+  /** Relative weight among the signals that apply */
+  weight: number;
+  detail: string;
+}
+
+export interface CalibratedConfidence {
+  /** 0-100, stored as incidents.confidence_score */
+  score: number;
+  /** One line per signal, stored as incidents.confidence_reasoning */
+  reasoning: string;
+  signals: ConfidenceSignal[];
+}
+
+export const CONFIDENCE_SIGNAL_LABELS: Record<ConfidenceSignalId, string> = {
+  model: "AI self-assessment",
+  taxonomy: "Error classification",
+  trace: "Stack trace",
+  similar_incidents: "Similar incidents",
+};
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+/** Scores below this are flagged for human review */
+export const LOW_CONFIDENCE_THRESHOLD = 50;
+
+export function confidenceLevel(score: number): ConfidenceLevel {
+  return score >= 75 ? "high" : score >= LOW_CONFIDENCE_THRESHOLD ? "medium" : "low";
+}
+
+export function confidenceClass(level: ConfidenceLevel) {
+  return level === "high" ? "bg-green-500/15 text-green-700 border-green-500/30 dark:text-green-400" :
+    level === "medium" ? "bg-yellow-500/15 text-yellow-700 border-yellow-500/30 dark:text-yellow-400" :
+    "bg-destructive/15 text-destructive border-destructive/30";
+}
+
+export interface ConfidenceInput {
+  analysis: Analysis;
+  detectedErrorType: string;
+  detectedErrors: DetectedError[];
+  hasStackTrace: boolean;
+  hasExceptionChain: boolean;
+  similarIncidents: SimilarIncident[];
+}
+
+/** Past incidents this close are expected to share the root cause */
+const STRONG_MATCH_SCORE = 60;
+
+function taxonomySignal({ analysis, detectedErrorType, detectedErrors }: ConfidenceInput): ConfidenceSignal {
+  const primary = detectedErrors.find((e) => e.role === "primary");
+  let score: number;
+  let detail: string;
+  if (!primary || detectedErrorType === "UnknownError") {
+    score = 0.1;
+    detail = "No taxonomy rule matched the log";
+  } else if (!primary.fatal) {
+    score = 0.5;
+    detail = `${primary.type} matched on warning lines only`;
+  } else {
+    const competing = detectedErrors.filter((e) => e.role === "contributing" && e.fatal).length;
+    score = competing > 0 ? 0.7 : 0.9;
+    detail = competing > 0
+      ? `${primary.type} matched on error lines, along with ${competing} other error type${competing === 1 ? "" : "s"}`
+      : `${primary.type} matched on error lines`;
+  }
+
+  // The AI naming a different error than the taxonomy is a sign one of them is wrong
+  const aiType = analysis.error_type.toLowerCase();
+  const parsedType = detectedErrorType.toLowerCase();
+  if (primary && !aiType.includes(parsedType) && !parsedType.includes(aiType)) {
+    score = Math.max(0, score - 0.2);
+    detail += `; the AI classified it as ${analysis.error_type}`;
+  }
+  return { signal: "taxonomy", score, weight: 0.25, detail };
+}
+
+function traceSignal({ hasStackTrace, hasExceptionChain }: ConfidenceInput): ConfidenceSignal {
+  if (hasStackTrace && hasExceptionChain) {
+    return { signal: "trace", score: 1, weight: 0.15, detail: "Stack trace with an exception chain down to the cause" };
+  }
+  if (hasStackTrace) return { signal: "trace", score: 0.8, weight: 0.15, detail: "Stack trace present" };
+  return { signal: "trace", score: 0.3, weight: 0.15, detail: "No stack trace in the log" };
+}
+
+/**
+ * Whether close past incidents tell the same story: the embedding similarity
+ * of their AI summaries to this one, or a weaker error-type agreement when
+ * either side has no embedding. Null when nothing is close enough to compare.
+ */
+function similarIncidentSignal({ detectedErrorType, similarIncidents }: ConfidenceInput): ConfidenceSignal | null {
+  const strong = similarIncidents.filter((inc) => inc.similarityScore >= STRONG_MATCH_SCORE);
+  if (strong.length === 0) return null;
+  const agreement = strong.reduce(
+    (sum, inc) => sum + (inc.semanticSimilarity > 0 ? inc.semanticSimilarity : inc.error_type === detectedErrorType ? 0.6 : 0.3),
+    0,
+  ) / strong.length;
+  return {
+    signal: "similar_incidents",
+    score: agreement,
+    weight: 0.2,
+    detail: `${strong.length} close past incident${strong.length === 1 ? "" : "s"}, ${Math.round(agreement * 100)}% agreement with this analysis`,
+  };
+}
+
+/**
+ * Blend the model's self-reported confidence with signals it can't fake:
+ * how cleanly the taxonomy classified the log, whether there is a stack
+ * trace to reason from, and whether similar past incidents agree. Signals
+ * that don't apply drop out and the rest are reweighted.
+ */
+export function calibrateConfidence(input: ConfidenceInput): CalibratedConfidence {
+  const signals = [
+    {
+      signal: "model" as const,
+      score: input.analysis.confidence / 100,
+      weight: 0.4,
+      detail: input.analysis.confidence_reasoning,
+    },
+    taxonomySignal(input),
+    traceSignal(input),
+    similarIncidentSignal(input),
+  ].filter((s): s is ConfidenceSignal => s !== null);
+
+  const totalWeight = signals.reduce((sum, s) => sum + s.weight, 0);
+  const score = Math.round((signals.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight) * 100);
+  const reasoning = signals
+    .map((s) => `${CONFIDENCE_SIGNAL_LABELS[s.signal]} (${Math.round(s.score * 100)}%): ${s.detail}`)
+    .join("\n");
+
+  return { score, reasoning, signals };
+}
@@ -0,0 +1,171 @@
+import { isWarningLine, ParsedLog } from "@/lib/logParser";
+import type { StackFrame } from "@/lib/stackTrace";
+
+export type ContextSectionId = "exception_chain" | "error_snippet" | "stack_frames" | "warnings" | "config" | "log_excerpt";
+
+export interface ContextSection {
+  id: ContextSectionId;
+  title: string;
+  content: string;
+  tokens: number;
+  /** Content was cut to fit the remaining budget */
+  truncated: boolean;
+}
+
+export interface AnalysisContext {
+  tokenBudget: number;
+  tokens: number;
+  sections: ContextSection[];
+  /** Sections with content that did not fit at all */
+  omitted: ContextSectionId[];
+}
+
+export const TOKEN_BUDGET_OPTIONS = [2000, 4000, 8000, 16000];
+export const DEFAULT_TOKEN_BUDGET = 4000;
+
+/** Frames kept per exception in the chain section */
+const CHAIN_FRAMES = 5;
+/** Warnings kept from before the failure, newest last */
+const MAX_WARNINGS = 30;
+
+// Settings that commonly explain a failure: Spark/Hadoop/Flink/Kafka keys, JVM flags, pool and timeout sizes
+const CONFIG_PATTERNS = [
+  /(?<![\w.])((?:spark|hadoop|hive|flink|kafka|yarn|mapreduce|fs|dfs|airflow|dbt)\.[\w.-]+)\s*[=:]\s*([^\s,;]+)/gi,
+  /(?:^|\s)(-X(?:mx|ms|ss))(\d+[kmgKMG]?)\b/g,
+  /(?:^|\s)-XX:([+-]?\w+)(?:=(\S+))?/g,
+  /\b((?:max|min)_?\w*(?:connections|pool_size|memory|retries|workers|threads|batch_size)|\w*timeout\w*)\s*[=:]\s*(\d+\w*)\b/gi,
+];
+
+/** Rough token count: ~4 characters per token for log text */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function formatFrame(f: StackFrame): string {
+  return `${f.module ? `${f.module}.` : ""}${f.function}${f.file ? ` (${f.file}${f.line !== null ? `:${f.line}` : ""})` : ""}`;
+}
+
+function chainSection(parsed: ParsedLog): string {
+  const chain = parsed.exceptionChain;
+  if (chain.length === 0) return "";
+  const body = chain.map((link) => {
+    const frames = link.frames.slice(0, CHAIN_FRAMES).map((f) => `     at ${formatFrame(f)}`).join("\n");
+    return `${link.depth}. ${link.exceptionType}${link.message ? `: ${link.message}` : ""}${frames ? `\n${frames}` : ""}`;
+  }).join("\n");
+  const root = chain[chain.length - 1];
+  return `${body}\nInnermost cause: ${root.exceptionType}${root.message ? `: ${root.message}` : ""}`;
+}
+
+/** Application frames of every block, with the library frame each one was called from collapsed */
+function framesSection(parsed: ParsedLog): string {
+  return parsed.stackTraces.map((block) => {
+    const lines: string[] = [];
+    let skipped = 0;
+    for (const f of block.frames) {
+      if (f.library) {
+        skipped++;
+        continue;
+      }
+      if (skipped > 0) lines.push(`  ... ${skipped} library frame(s)`);
+      skipped = 0;
+      lines.push(`  at ${formatFrame(f)}`);
+    }
+    if (skipped > 0) lines.push(`  ... ${skipped} library frame(s)`);
+    return `[${block.language}] ${block.header || block.kind}\n${lines.join("\n")}`;
+  }).join("\n");
+}
+
+/** Warnings and retries logged before the failure, deduplicated and counted */
+function warningsSection(parsed: ParsedLog): string {
+  const lines = parsed.redactedLog.split("\n");
+  const end = parsed.failureLine ? parsed.failureLine - 1 : lines.length;
+  const counts = new Map<string, { line: number; text: string; count: number }>();
+
+  for (let i = 0; i < end; i++) {
+    const text = lines[i].trim();
+    if (!text || !isWarningLine(text)) continue;
+    // Digits vary between repeats of the same warning (timestamps, attempt numbers)
+    const key = text.replace(/\d+/g, "#");
+    const seen = counts.get(key);
+    if (seen) {
+      seen.count++;
+    } else {
+      counts.set(key, { line: i + 1, text, count: 1 });
+    }
+  }
+
+  return [...counts.values()]
+    .slice(-MAX_WARNINGS)
+    .map((w) => `${w.line}: ${w.text}${w.count > 1 ? ` (×${w.count})` : ""}`)
+    .join("\n");
+}
+
+function configSection(parsed: ParsedLog): string {
+  const values = new Map<string, string>();
+  for (const pattern of CONFIG_PATTERNS) {
+    for (const m of parsed.redactedLog.matchAll(pattern)) {
+      // Later values win: the effective setting is the last one logged
+      values.set(m[1], m[2] ?? "");
+    }
+  }
+  return [...values.entries()].map(([key, value]) => (value ? `${key}=${value}` : key)).join("\n");
+}
+
+/** "12| line": numbers the analysis cites as evidence, see Evidence */
+export function numberLines(text: string): string {
+  return text.split("\n").map((line, i) => `${i + 1}| ${line}`).join("\n");
+}
+
+const SECTIONS: Array<{ id: ContextSectionId; title: string; build: (p: ParsedLog) => string; keep: "head" | "tail" }> = [
+  { id: "exception_chain", title: "Exception Chain (outermost wrapper → innermost cause)", build: chainSection, keep: "head" },
+  { id: "error_snippet", title: "Error Snippet", build: (p) => p.errorSnippet, keep: "head" },
+  { id: "stack_frames", title: "Application Stack Frames", build: framesSection, keep: "head" },
+  { id: "warnings", title: "Warnings Before the Failure", build: warningsSection, keep: "tail" },
+  { id: "config", title: "Detected Configuration", build: configSection, keep: "head" },
+  { id: "log_excerpt", title: "Log Excerpt (numbered lines of the cleaned log)", build: (p) => numberLines(p.cleanedLog), keep: "tail" },
+];
+
+/** Cut whole lines from one end until the text fits in maxTokens */
+function fitLines(text: string, maxTokens: number, keep: "head" | "tail"): string {
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  let used = 0;
+  const ordered = keep === "head" ? lines : [...lines].reverse();
+  for (const line of ordered) {
+    const cost = estimateTokens(line + "\n");
+    if (used + cost > maxTokens) break;
+    kept.push(line);
+    used += cost;
+  }
+  return (keep === "head" ? kept : kept.reverse()).join("\n");
+}
+
+/**
+ * Build the prompt context for the analyze function within a token budget.
+ * Sections are filled in priority order: the exception chain and snippet
+ * first, then frames, warnings and config, with the log excerpt taking
+ * whatever budget is left. A section that doesn't fit is trimmed by whole
+ * lines from its less relevant end.
+ */
+export function assembleContext(parsed: ParsedLog, tokenBudget = DEFAULT_TOKEN_BUDGET): AnalysisContext {
+  const sections: ContextSection[] = [];
+  const omitted: ContextSectionId[] = [];
+  let remaining = tokenBudget;
+
+  for (const { id, title, build, keep } of SECTIONS) {
+    const full = build(parsed).trim();
+    if (!full) continue;
+    // Section titles and fences cost a few tokens each
+    const overhead = estimateTokens(title) + 4;
+    const content = estimateTokens(full) + overhead <= remaining ? full : fitLines(full, remaining - overhead, keep);
+    if (!content) {
+      omitted.push(id);
+      continue;
+    }
+    const tokens = estimateTokens(content) + overhead;
+    sections.push({ id, title, content, tokens, truncated: content !== full });
+    remaining -= tokens;
+  }
+
+  return { tokenBudget, tokens: tokenBudget - remaining, sections, omitted };
+}
@@ -0,0 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fmix32, fnv1a } from "@/lib/hashing";
+
+/** Width of the incidents.embedding column; every provider must produce vectors of this size */
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingProvider {
+  /** Stored alongside each vector; only vectors from the same model are compared */
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  model: string;
+  vectors: number[][];
+}
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "was", "were", "are", "has", "have", "had", "not", "but",
+  "from", "into", "when", "which", "while", "due", "its", "been", "being", "than", "then", "there",
+  "their", "they", "will", "would", "could", "should", "can", "also", "because", "after", "before",
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOP_WORDS.has(t) && !/^\d+$/.test(t));
+}
+
+/**
+ * Deterministic offline embedding: unigrams and bigrams are hashed into a
+ * fixed number of signed buckets (the hashing trick), weighted by sublinear
+ * term frequency and L2-normalised, so cosine similarity reflects shared terms.
+ */
+export function hashingVectorize(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  tokens.forEach((t, i) => {
+    counts.set(t, (counts.get(t) || 0) + 1);
+    // Bigrams carry phrases like "heap space" or "rate limit"; half weight so words still dominate
+    if (i > 0) counts.set(`${tokens[i - 1]} ${t}`, (counts.get(`${tokens[i - 1]} ${t}`) || 0) + 0.5);
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, count] of counts) {
+    const h = fnv1a(feature);
+    const sign = fmix32(h) & 1 ? 1 : -1;
+    vector[h % dimensions] += sign * (1 + Math.log(count + 1));
+  }
+
+  const norm = Math.sqrt(vector.reduce((n, v) => n + v * v, 0));
+  return norm > 0 ? vector.map((v) => Number((v / norm).toFixed(6))) : vector;
+}
+
+export const hashingEmbeddingProvider: EmbeddingProvider = {
+  model: `hashing-v1-${EMBEDDING_DIMENSIONS}`,
+  embed: async (texts) => texts.map((t) => hashingVectorize(t)),
+};
+
+const PROVIDERS: EmbeddingProvider[] = [];
+
+/** Register a provider; the most recently registered one is used, with the hashing vectoriser as fallback */
+export function registerEmbeddingProvider(provider: EmbeddingProvider) {
+  PROVIDERS.unshift(provider);
+}
+
+/** Model new embeddings are expected to come from, barring a provider failure */
+export function activeEmbeddingModel(): string {
+  return PROVIDERS[0]?.model ?? hashingEmbeddingProvider.model;
+}
+
+export async function embedTexts(texts: string[]): Promise<EmbeddingResult> {
+  for (const provider of PROVIDERS) {
+    try {
+      const vectors = await provider.embed(texts);
+      if (vectors.every((v) => v.length === EMBEDDING_DIMENSIONS)) return { model: provider.model, vectors };
+      console.error(`Embedding provider ${provider.model} returned vectors of the wrong size`);
+    } catch (e) {
+      console.error(`Embedding provider ${provider.model} failed:`, e);
+    }
+  }
+  return { model: hashingEmbeddingProvider.model, vectors: await hashingEmbeddingProvider.embed(texts) };
+}
+
+/** Text an incident is embedded from: what went wrong, not how the log looked */
+export function incidentEmbeddingText(incident: { ai_summary?: string | null; root_cause_summary?: string | null }): string {
+  return [incident.ai_summary, incident.root_cause_summary].filter(Boolean).join("\n");
+}
+
+/**
+ * Text a log is embedded from before it is analyzed, to find feedback lessons:
+ * the exceptions and failure lines, which summaries of similar incidents echo
+ */
+export function failureEmbeddingText(parsed: { exceptionChain: { exceptionType: string; message: string }[]; errorSnippet: string }): string {
+  return [...parsed.exceptionChain.map((link) => `${link.exceptionType}: ${link.message}`), parsed.errorSnippet].join("\n");
+}
+
+/** pgvector accepts the JSON array form as its text input */
+export function toVectorLiteral(vector: number[]): string {
+  return JSON.stringify(vector);
+}
+
+/** Embed older incidents that predate embeddings (or used another model), a batch at a time */
+export async function backfillIncidentEmbeddings(userId: string, batchSize = 20): Promise<number> {
+  const model = activeEmbeddingModel();
+  const { data, error } = await supabase
+    .from("incidents")
+    .select("id, ai_summary, root_cause_summary")
+    .eq("user_id", userId)
+    .or(`embedding_model.is.null,embedding_model.neq.${model}`)
+    .not("root_cause_summary", "is", null)
+    .limit(batchSize);
+
+  if (error || !data || data.length === 0) return 0;
+
+  const { model: used, vectors } = await embedTexts(data.map(incidentEmbeddingText));
+  await Promise.all(data.map((incident, i) =>
+    supabase.from("incidents").update({ embedding: toVectorLiteral(vectors[i]), embedding_model: used }).eq("id", incident.id),
+  ));
+  return data.length;
+}
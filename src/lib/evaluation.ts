@@ -0,0 +1,286 @@
+import { z } from "zod";
+import type { Analysis } from "@/lib/analysisSchema";
+
+/**
+ * Golden dataset format, as JSON:
+ *
+ *   { "name": "pipelines", "cases": [{ "id": "spark-oom", "log": "...",
+ *     "expectedErrorType": "OutOfMemoryError", "expectedRootCauseKeywords": ["heap|memory", "executor"] }] }
+ *
+ * A keyword with "|" accepts any of its spellings.
+ */
+const goldenCaseSchema = z.object({
+  id: z.string().trim().min(1, "needs an id"),
+  log: z.string().refine((log) => log.trim().length > 0, "needs a log"),
+  expectedErrorType: z.string().trim().min(1, "needs an expected error type"),
+  expectedRootCauseKeywords: z.array(z.string().trim().min(1)).min(1, "needs at least one root cause keyword"),
+});
+
+const goldenDatasetSchema = z.object({
+  name: z.string().trim().min(1, "needs a name"),
+  cases: z.array(goldenCaseSchema).min(1, "needs at least one case"),
+});
+
+export type GoldenCase = z.infer<typeof goldenCaseSchema>;
+export type GoldenDataset = z.infer<typeof goldenDatasetSchema>;
+
+export type GoldenDatasetResult =
+  | { ok: true; dataset: GoldenDataset }
+  | { ok: false; errors: string[] };
+
+export function parseGoldenDataset(text: string): GoldenDatasetResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return { ok: false, errors: [`Not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+
+  const result = goldenDatasetSchema.safeParse(json);
+  if (!result.success) {
+    return { ok: false, errors: result.error.issues.map((i) => `${i.path.join(".") || "dataset"} ${i.message}`) };
+  }
+
+  // Runs are compared case by case, so ids must be unique
+  const ids = result.data.cases.map((c) => c.id);
+  const duplicates = [...new Set(ids.filter((id, i) => ids.indexOf(id) !== i))];
+  if (duplicates.length > 0) return { ok: false, errors: [`Duplicate case ids: ${duplicates.join(", ")}`] };
+
+  return { ok: true, dataset: result.data };
+}
+
+/** Share of expected keywords a root cause must mention to count as a match */
+export const ROOT_CAUSE_MATCH_THRESHOLD = 0.5;
+
+function normalizeType(type: string) {
+  return type.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Models name types loosely ("java.lang.OutOfMemoryError: Java heap space"), so containment counts */
+export function errorTypeMatches(expected: string, predicted: string | null | undefined): boolean {
+  return !!predicted && normalizeType(predicted).includes(normalizeType(expected));
+}
+
+/** The expected keywords the text mentions, in dataset order */
+export function matchKeywords(text: string, keywords: string[]): string[] {
+  const haystack = text.toLowerCase();
+  return keywords.filter((keyword) =>
+    keyword.split("|").some((spelling) => spelling.trim() && haystack.includes(spelling.trim().toLowerCase())));
+}
+
+/** How one case fared in a run */
+export interface CaseOutcome {
+  caseId: string;
+  expectedErrorType: string;
+  /** What parseLog classified the log as */
+  detectedErrorType: string;
+  /** What the model said; null when the analysis failed */
+  predictedErrorType: string | null;
+  parserCorrect: boolean;
+  modelCorrect: boolean;
+  expectedKeywords: string[];
+  matchedKeywords: string[];
+  /** Share of expected keywords the root cause mentions, 0-1 */
+  rootCauseScore: number;
+  rootCauseSummary: string | null;
+  error: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  durationMs: number | null;
+}
+
+type CaseScores = Pick<CaseOutcome,
+  "caseId" | "expectedErrorType" | "detectedErrorType" | "predictedErrorType" | "parserCorrect" | "modelCorrect" |
+  "expectedKeywords" | "matchedKeywords" | "rootCauseScore" | "rootCauseSummary">;
+
+/** Score a case's parse and analysis against its labels; a failed analysis scores zero */
+export function scoreCase(
+  goldenCase: GoldenCase,
+  detectedErrorType: string,
+  analysis: Pick<Analysis, "error_type" | "root_cause_summary"> | null,
+): CaseScores {
+  const matchedKeywords = analysis ? matchKeywords(analysis.root_cause_summary, goldenCase.expectedRootCauseKeywords) : [];
+  return {
+    caseId: goldenCase.id,
+    expectedErrorType: goldenCase.expectedErrorType,
+    detectedErrorType,
+    predictedErrorType: analysis?.error_type ?? null,
+    parserCorrect: detectedErrorType === goldenCase.expectedErrorType,
+    modelCorrect: errorTypeMatches(goldenCase.expectedErrorType, analysis?.error_type),
+    expectedKeywords: goldenCase.expectedRootCauseKeywords,
+    matchedKeywords,
+    rootCauseScore: matchedKeywords.length / goldenCase.expectedRootCauseKeywords.length,
+    rootCauseSummary: analysis?.root_cause_summary ?? null,
+  };
+}
+
+/** Aggregate scores of a run; rates are 0-1 and null for an empty run */
+export interface RunSummary {
+  caseCount: number;
+  failedCount: number;
+  parserAccuracy: number | null;
+  modelAccuracy: number | null;
+  rootCauseScore: number | null;
+  rootCauseMatchRate: number | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function total(values: Array<number | null>): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) : null;
+}
+
+/** Failed cases stay in the denominators, so a prompt that breaks the output scores lower */
+export function summarizeRun(outcomes: CaseOutcome[]): RunSummary {
+  return {
+    caseCount: outcomes.length,
+    failedCount: outcomes.filter((o) => o.error !== null).length,
+    parserAccuracy: mean(outcomes.map((o) => (o.parserCorrect ? 1 : 0))),
+    modelAccuracy: mean(outcomes.map((o) => (o.modelCorrect ? 1 : 0))),
+    rootCauseScore: mean(outcomes.map((o) => o.rootCauseScore)),
+    rootCauseMatchRate: mean(outcomes.map((o) => (o.rootCauseScore >= ROOT_CAUSE_MATCH_THRESHOLD ? 1 : 0))),
+    promptTokens: total(outcomes.map((o) => o.promptTokens)),
+    completionTokens: total(outcomes.map((o) => o.completionTokens)),
+  };
+}
+
+/** A stored run: what it pinned and how it scored */
+export interface EvaluationRun {
+  id: string;
+  createdAt: string;
+  name: string;
+  datasetName: string;
+  promptVersion: string | null;
+  provider: string | null;
+  model: string | null;
+  summary: RunSummary;
+}
+
+type MetricKey = "parserAccuracy" | "modelAccuracy" | "rootCauseScore" | "rootCauseMatchRate" | "failedCount" | "promptTokens" | "completionTokens";
+
+export const EVALUATION_METRICS: Array<{ key: MetricKey; label: string; rate: boolean; higherIsBetter: boolean }> = [
+  { key: "parserAccuracy", label: "Parser classification accuracy", rate: true, higherIsBetter: true },
+  { key: "modelAccuracy", label: "Model classification accuracy", rate: true, higherIsBetter: true },
+  { key: "rootCauseScore", label: "Root cause keyword recall", rate: true, higherIsBetter: true },
+  { key: "rootCauseMatchRate", label: "Root cause match rate", rate: true, higherIsBetter: true },
+  { key: "failedCount", label: "Failed analyses", rate: false, higherIsBetter: false },
+  { key: "promptTokens", label: "Prompt tokens", rate: false, higherIsBetter: false },
+  { key: "completionTokens", label: "Completion tokens", rate: false, higherIsBetter: false },
+];
+
+export interface MetricDelta {
+  key: MetricKey;
+  label: string;
+  baseline: number | null;
+  candidate: number | null;
+  delta: number | null;
+}
+
+export type CaseChangeKind = "improved" | "regressed" | "mixed" | "unchanged" | "added" | "removed";
+
+export interface CaseChange {
+  caseId: string;
+  kind: CaseChangeKind;
+  /** What moved, e.g. "model type wrong → right" */
+  details: string[];
+}
+
+export interface RunComparison {
+  sameDataset: boolean;
+  metrics: MetricDelta[];
+  cases: CaseChange[];
+}
+
+function compareCase(baseline: CaseOutcome, candidate: CaseOutcome): CaseChange {
+  const moves: Array<{ better: boolean; detail: string }> = [];
+  const flag = (label: string, before: boolean, after: boolean, good: boolean) => {
+    if (before !== after) moves.push({ better: after === good, detail: `${label} ${before ? "yes" : "no"} → ${after ? "yes" : "no"}` });
+  };
+  flag("failed", baseline.error !== null, candidate.error !== null, false);
+  flag("parser type correct", baseline.parserCorrect, candidate.parserCorrect, true);
+  flag("model type correct", baseline.modelCorrect, candidate.modelCorrect, true);
+  if (baseline.rootCauseScore !== candidate.rootCauseScore) {
+    moves.push({
+      better: candidate.rootCauseScore > baseline.rootCauseScore,
+      detail: `root cause keywords ${baseline.matchedKeywords.length} → ${candidate.matchedKeywords.length} of ${candidate.expectedKeywords.length}`,
+    });
+  }
+
+  const better = moves.some((m) => m.better);
+  const worse = moves.some((m) => !m.better);
+  const kind: CaseChangeKind = better && worse ? "mixed" : better ? "improved" : worse ? "regressed" : "unchanged";
+  return { caseId: candidate.caseId, kind, details: moves.map((m) => m.detail) };
+}
+
+const CHANGE_ORDER: CaseChangeKind[] = ["regressed", "mixed", "improved", "added", "removed", "unchanged"];
+
+/** Metric deltas and per-case movement from a baseline run to a candidate, regressions first */
+export function compareRuns(
+  baseline: { run: EvaluationRun; outcomes: CaseOutcome[] },
+  candidate: { run: EvaluationRun; outcomes: CaseOutcome[] },
+): RunComparison {
+  const metrics = EVALUATION_METRICS.map(({ key, label }) => {
+    const before = baseline.run.summary[key];
+    const after = candidate.run.summary[key];
+    return { key, label, baseline: before, candidate: after, delta: before !== null && after !== null ? after - before : null };
+  });
+
+  const before = new Map(baseline.outcomes.map((o) => [o.caseId, o]));
+  const after = new Map(candidate.outcomes.map((o) => [o.caseId, o]));
+  const cases: CaseChange[] = [
+    ...candidate.outcomes.map((o) => {
+      const previous = before.get(o.caseId);
+      return previous ? compareCase(previous, o) : { caseId: o.caseId, kind: "added" as const, details: [] };
+    }),
+    ...baseline.outcomes.filter((o) => !after.has(o.caseId)).map((o) => ({ caseId: o.caseId, kind: "removed" as const, details: [] })),
+  ];
+  cases.sort((a, b) => CHANGE_ORDER.indexOf(a.kind) - CHANGE_ORDER.indexOf(b.kind));
+
+  return { sameDataset: baseline.run.datasetName === candidate.run.datasetName, metrics, cases };
+}
+
+export function formatMetric(key: MetricKey, value: number | null): string {
+  if (value === null) return "—";
+  return EVALUATION_METRICS.find((m) => m.key === key)?.rate ? `${(value * 100).toFixed(1)}%` : value.toLocaleString();
+}
+
+export function formatMetricDelta(key: MetricKey, delta: number | null): string {
+  if (delta === null) return "—";
+  const sign = delta > 0 ? "+" : "";
+  return EVALUATION_METRICS.find((m) => m.key === key)?.rate
+    ? `${sign}${(delta * 100).toFixed(1)} pts`
+    : `${sign}${delta.toLocaleString()}`;
+}
+
+function describeRun(run: EvaluationRun) {
+  return `${run.name} (${run.promptVersion ?? "default prompt"}, ${run.provider ?? "default"}/${run.model ?? "default"}, ${run.createdAt.slice(0, 10)})`;
+}
+
+/** The comparison as a Markdown report, for pasting into a PR or ticket */
+export function formatComparisonReport(baseline: EvaluationRun, candidate: EvaluationRun, comparison: RunComparison): string {
+  const lines = [
+    "# Evaluation comparison",
+    "",
+    `- Baseline: ${describeRun(baseline)}`,
+    `- Candidate: ${describeRun(candidate)}`,
+    `- Dataset: ${candidate.datasetName}${comparison.sameDataset ? "" : ` (baseline used ${baseline.datasetName})`}`,
+    "",
+    "| Metric | Baseline | Candidate | Change |",
+    "| --- | --- | --- | --- |",
+    ...comparison.metrics.map((m) =>
+      `| ${m.label} | ${formatMetric(m.key, m.baseline)} | ${formatMetric(m.key, m.candidate)} | ${formatMetricDelta(m.key, m.delta)} |`),
+  ];
+
+  const changed = comparison.cases.filter((c) => c.kind !== "unchanged");
+  lines.push("", `## Cases (${changed.length} of ${comparison.cases.length} changed)`, "");
+  if (changed.length === 0) lines.push("No case changed.");
+  for (const change of changed) {
+    lines.push(`- **${change.caseId}**: ${change.kind}${change.details.length > 0 ? ` (${change.details.join("; ")})` : ""}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseLog } from "@/lib/logParser";
+import { analysisRequestBody, streamAnalysis } from "@/lib/analysisStream";
+import type { AnalyzeResponse } from "@/lib/analysisSchema";
+import { DEFAULT_TOKEN_BUDGET } from "@/lib/contextAssembly";
+import type { LLMSettings } from "@/lib/llmSettings";
+import { CaseOutcome, EvaluationRun, GoldenDataset, scoreCase, summarizeRun } from "@/lib/evaluation";
+
+export interface EvaluationOptions {
+  name: string;
+  /** Provider and model for every case; nulls use the analyze function's default */
+  llm: LLMSettings;
+  /** Prompt template version to pin; null uses the function's current one */
+  promptVersion: string | null;
+  tokenBudget?: number;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Push every case through parseLog and the analyze function, score it against
+ * its labels, and store the run. Cases use the built-in taxonomy and redaction,
+ * and the requests carry no user, so the cache, feedback lessons and account
+ * settings don't leak into the scores.
+ */
+export async function runEvaluation(userId: string, dataset: GoldenDataset, options: EvaluationOptions) {
+  const { llm, promptVersion, tokenBudget = DEFAULT_TOKEN_BUDGET, onProgress } = options;
+  const outcomes: CaseOutcome[] = [];
+  let provenance: AnalyzeResponse["provenance"] = undefined;
+
+  for (const goldenCase of dataset.cases) {
+    onProgress?.(outcomes.length, dataset.cases.length);
+    const started = performance.now();
+    const parsed = parseLog(goldenCase.log);
+
+    let analysis: AnalyzeResponse | null = null;
+    let error: string | null = null;
+    try {
+      // evaluation: no cache, saved provider or feedback lessons, only the prompt and model under test
+      analysis = await streamAnalysis({ ...analysisRequestBody(parsed, tokenBudget), promptVersion, llm, evaluation: true }, () => {});
+      provenance ??= analysis.provenance;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    outcomes.push({
+      ...scoreCase(goldenCase, parsed.detectedErrorType, analysis),
+      error,
+      promptTokens: analysis?.provenance?.promptTokens ?? null,
+      completionTokens: analysis?.provenance?.completionTokens ?? null,
+      durationMs: Math.round(performance.now() - started),
+    });
+  }
+  onProgress?.(outcomes.length, dataset.cases.length);
+
+  const summary = summarizeRun(outcomes);
+  // Record the prompt and model the function actually used; null settings only mean "its default"
+  const { data: run, error } = await supabase.from("evaluation_runs").insert({
+    user_id: userId,
+    name: options.name,
+    dataset_name: dataset.name,
+    prompt_version: provenance?.promptVersion ?? promptVersion,
+    llm_provider: provenance?.provider ?? llm.provider,
+    llm_model: provenance?.model ?? llm.model,
+    case_count: summary.caseCount,
+    failed_count: summary.failedCount,
+    parser_accuracy: summary.parserAccuracy,
+    model_accuracy: summary.modelAccuracy,
+    root_cause_score: summary.rootCauseScore,
+    root_cause_match_rate: summary.rootCauseMatchRate,
+    prompt_tokens: summary.promptTokens,
+    completion_tokens: summary.completionTokens,
+  }).select("*").single();
+  if (error || !run) return { run: null, outcomes, error: error?.message ?? "Failed to save the run" };
+
+  const { error: resultsError } = await supabase.from("evaluation_results").insert(outcomes.map((o) => ({
+    run_id: run.id,
+    user_id: userId,
+    case_id: o.caseId,
+    expected_error_type: o.expectedErrorType,
+    detected_error_type: o.detectedErrorType,
+    predicted_error_type: o.predictedErrorType,
+    parser_correct: o.parserCorrect,
+    model_correct: o.modelCorrect,
+    expected_keywords: o.expectedKeywords,
+    matched_keywords: o.matchedKeywords,
+    root_cause_score: o.rootCauseScore,
+    root_cause_summary: o.rootCauseSummary,
+    error: o.error,
+    prompt_tokens: o.promptTokens,
+    completion_tokens: o.completionTokens,
+    duration_ms: o.durationMs,
+  })));
+
+  return { run: toEvaluationRun(run), outcomes, error: resultsError?.message ?? null };
+}
+
+function toEvaluationRun(row: Tables<"evaluation_runs">): EvaluationRun {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    name: row.name,
+    datasetName: row.dataset_name,
+    promptVersion: row.prompt_version,
+    provider: row.llm_provider,
+    model: row.llm_model,
+    summary: {
+      caseCount: row.case_count,
+      failedCount: row.failed_count,
+      parserAccuracy: row.parser_accuracy,
+      modelAccuracy: row.model_accuracy,
+      rootCauseScore: row.root_cause_score,
+      rootCauseMatchRate: row.root_cause_match_rate,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+    },
+  };
+}
+
+export async function fetchEvaluationRuns(userId: string): Promise<EvaluationRun[]> {
+  const { data, error } = await supabase
+    .from("evaluation_runs")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error || !data) return [];
+  return data.map(toEvaluationRun);
+}
+
+export async function fetchEvaluationOutcomes(runId: string): Promise<CaseOutcome[]> {
+  const { data, error } = await supabase
+    .from("evaluation_results")
+    .select("*")
+    .eq("run_id", runId)
+    .order("case_id");
+
+  if (error || !data) return [];
+  return data.map((row) => ({
+    caseId: row.case_id,
+    expectedErrorType: row.expected_error_type,
+    detectedErrorType: row.detected_error_type,
+    predictedErrorType: row.predicted_error_type,
+    parserCorrect: row.parser_correct,
+    modelCorrect: row.model_correct,
+    expectedKeywords: row.expected_keywords,
+    matchedKeywords: row.matched_keywords,
+    rootCauseScore: row.root_cause_score,
+    rootCauseSummary: row.root_cause_summary,
+    error: row.error,
+    promptTokens: row.prompt_tokens,
+    completionTokens: row.completion_tokens,
+    durationMs: row.duration_ms,
+  }));
+}
+
+export async function deleteEvaluationRun(runId: string) {
+  return supabase.from("evaluation_runs").delete().eq("id", runId);
+}
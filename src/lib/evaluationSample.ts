@@ -0,0 +1,71 @@
+import type { GoldenDataset } from "@/lib/evaluation";
+
+/** A small labelled dataset to try the harness with, and a template for real ones */
+export const SAMPLE_GOLDEN_DATASET: GoldenDataset = {
+  name: "sample-pipelines",
+  cases: [
+    {
+      id: "spark-executor-oom",
+      log: [
+        "2026-10-01 02:14:07 INFO DAGScheduler: Submitting ResultStage 4 (aggregate-daily-revenue)",
+        "2026-10-01 02:16:51 WARN TaskSetManager: Lost task 12.0 in stage 4.0: executor 3 exited",
+        "2026-10-01 02:16:52 ERROR Executor: Exception in task 12.1 in stage 4.0",
+        "java.lang.OutOfMemoryError: Java heap space",
+        "\tat java.util.Arrays.copyOf(Arrays.java:3236)",
+        "\tat org.apache.spark.sql.execution.aggregate.HashAggregateExec.doExecute(HashAggregateExec.scala:112)",
+        "2026-10-01 02:16:53 ERROR SparkContext: Job aborted: stage 4 failed 4 times",
+      ].join("\n"),
+      expectedErrorType: "OutOfMemoryError",
+      expectedRootCauseKeywords: ["heap|memory", "executor", "aggregat|partition"],
+    },
+    {
+      id: "airflow-s3-access-denied",
+      log: [
+        "[2026-10-02, 06:00:03 UTC] {taskinstance.py:1157} INFO - Executing <Task(S3ToRedshiftOperator): load_orders>",
+        "[2026-10-02, 06:00:09 UTC] {taskinstance.py:1703} ERROR - Task failed with exception",
+        "botocore.exceptions.ClientError: An error occurred (AccessDenied) when calling the GetObject operation: Access Denied",
+        "[2026-10-02, 06:00:09 UTC] {taskinstance.py:1224} INFO - Marking task as FAILED. dag_id=orders_daily",
+      ].join("\n"),
+      expectedErrorType: "PermissionDenied",
+      expectedRootCauseKeywords: ["access denied|accessdenied|permission", "s3|bucket", "role|policy|iam"],
+    },
+    {
+      id: "dbt-missing-column",
+      log: [
+        "06:12:44  Running with dbt=1.7.4",
+        "06:12:51  1 of 3 START sql table model analytics.fct_orders .......... [RUN]",
+        "06:12:53  1 of 3 ERROR creating sql table model analytics.fct_orders . [ERROR in 1.92s]",
+        "06:12:53  Database Error in model fct_orders (models/marts/fct_orders.sql)",
+        "06:12:53    column \"discount_code\" does not exist",
+        "06:12:53    LINE 14:     o.discount_code,",
+      ].join("\n"),
+      expectedErrorType: "SchemaMismatch",
+      expectedRootCauseKeywords: ["discount_code", "column", "upstream|source|schema"],
+    },
+    {
+      id: "kafka-connect-broker-unreachable",
+      log: [
+        "[2026-10-03 11:20:01,114] INFO [orders-sink|task-0] Starting JdbcSinkTask",
+        "[2026-10-03 11:20:31,508] WARN [Producer clientId=connector-producer-orders-sink-0] Connection to node 2 (broker-2.kafka:9092) could not be established",
+        "[2026-10-03 11:20:31,509] ERROR [orders-sink|task-0] WorkerSinkTask failed",
+        "java.net.ConnectException: Connection refused",
+        "\tat org.apache.kafka.common.network.Selector.doConnect(Selector.java:274)",
+      ].join("\n"),
+      expectedErrorType: "NetworkError",
+      expectedRootCauseKeywords: ["broker", "connection refused|unreachable|refused", "network|port|listener"],
+    },
+    {
+      id: "python-etl-none-attribute",
+      log: [
+        "2026-10-04 03:00:00,001 INFO etl.customers: Fetched 18234 rows from crm.customers",
+        "2026-10-04 03:00:02,417 ERROR etl.customers: Transform failed",
+        "Traceback (most recent call last):",
+        "  File \"/app/etl/customers.py\", line 88, in transform",
+        "    region = row.address.region.upper()",
+        "AttributeError: 'NoneType' object has no attribute 'region'",
+      ].join("\n"),
+      expectedErrorType: "NullPointerException",
+      expectedRootCauseKeywords: ["address", "none|null|missing", "region"],
+    },
+  ],
+};
@@ -0,0 +1,20 @@
+import { analysisSchema, Evidence, LineRange } from "@/lib/analysisSchema";
+
+export type { Evidence, LineRange };
+
+/** Read the evidence stored on an incident, dropping citations outside its cleaned log */
+export function citedEvidence(stored: unknown, lineCount: number): Evidence {
+  const parsed = analysisSchema.shape.evidence.safeParse(stored);
+  const inLog = (ranges: LineRange[]) =>
+    ranges.filter((r) => r.start <= lineCount).map((r) => ({ start: r.start, end: Math.min(r.end, lineCount) }));
+  if (!parsed.success || lineCount === 0) return { root_cause: [], fix_steps: [] };
+  return { root_cause: inLog(parsed.data.root_cause), fix_steps: parsed.data.fix_steps.map(inLog) };
+}
+
+export function formatLineRange({ start, end }: LineRange): string {
+  return start === end ? `Line ${start}` : `Lines ${start}–${end}`;
+}
+
+export function isLineCited(line: number, ranges: LineRange[]): boolean {
+  return ranges.some((r) => line >= r.start && line <= r.end);
+}
@@ -0,0 +1,91 @@
+import type { StackFrame, StackLanguage, StackTraceBlock } from "@/lib/stackTrace";
+
+export interface ExceptionLink {
+  /** Exception class or error kind, e.g. "java.io.IOException" or "ValueError" */
+  exceptionType: string;
+  message: string;
+  language: StackLanguage;
+  /** 0 = outermost wrapper; the highest depth is the root cause */
+  depth: number;
+  frames: StackFrame[];
+  /** 1-based line where this exception's section starts */
+  line: number;
+}
+
+const EXCEPTION_TOKEN = /((?:[\w$]+\.)*[\w$]*(?:Exception|Error|Throwable|Failure|Fault|Panic))(?::\s*(.*))?/;
+const DOTNET_INNER = /\s+--->\s+/;
+// Python prints the cause first, then the exception it triggered
+const PY_CHAIN_MARKERS = [
+  /During handling of the above exception, another exception occurred/,
+  /The above exception was the direct cause of the following exception/,
+];
+
+function splitHeader(header: string): { exceptionType: string; message: string } {
+  const panic = header.match(/^(panic|fatal error):\s*(.*)$/);
+  if (panic) return { exceptionType: panic[1], message: panic[2] };
+
+  const m = header.match(EXCEPTION_TOKEN);
+  if (m && m[1]) return { exceptionType: m[1], message: (m[2] || "").trim() };
+
+  const colon = header.indexOf(": ");
+  if (colon > 0) return { exceptionType: header.slice(0, colon).trim(), message: header.slice(colon + 2).trim() };
+  return { exceptionType: header.trim() || "Unknown", message: "" };
+}
+
+function linksFromBlock(block: StackTraceBlock): Omit<ExceptionLink, "depth">[] {
+  // .NET folds inner exceptions into the header: "Outer: msg ---> Inner: msg"
+  const parts = block.language === "dotnet" ? block.header.split(DOTNET_INNER) : [block.header];
+  return parts.map((part, i) => ({
+    ...splitHeader(part),
+    language: block.language,
+    frames: i === 0 ? block.frames : [],
+    line: block.startLine,
+  }));
+}
+
+function pythonLinked(lines: string[], prev: StackTraceBlock, next: StackTraceBlock): boolean {
+  const between = lines.slice(prev.endLine, next.startLine - 1).join("\n");
+  return PY_CHAIN_MARKERS.some((p) => p.test(between));
+}
+
+/**
+ * Group trace blocks into exception chains ordered outermost → innermost.
+ * JVM chains follow `Caused by:` sections; Python chains are linked by the
+ * "During handling of the above exception" / "direct cause" markers and are
+ * reversed because Python prints the root cause first. Suppressed exceptions
+ * are not part of the causal chain and are skipped.
+ */
+export function buildExceptionChains(log: string, blocks: StackTraceBlock[]): ExceptionLink[][] {
+  const lines = log.split("\n");
+  const chains: StackTraceBlock[][] = [];
+
+  let prev: StackTraceBlock | null = null;
+
+  for (const block of blocks) {
+    if (block.kind === "suppressed" || block.kind === "goroutine") continue;
+    const chain = chains[chains.length - 1];
+
+    if (block.kind === "caused_by" && chain) {
+      chain.push(block);
+    } else if (block.language === "python" && prev?.language === "python" && pythonLinked(lines, prev, block)) {
+      chain.unshift(block);
+    } else {
+      chains.push([block]);
+    }
+    prev = block;
+  }
+
+  return chains.map((chain) =>
+    chain.flatMap(linksFromBlock).map((link, depth) => ({ ...link, depth })),
+  );
+}
+
+/** The chain describing the final failure in the log: the last one recorded */
+export function buildExceptionChain(log: string, blocks: StackTraceBlock[]): ExceptionLink[] {
+  const chains = buildExceptionChains(log, blocks);
+  return chains[chains.length - 1] || [];
+}
+
+export function rootCauseOf(chain: ExceptionLink[]): ExceptionLink | null {
+  return chain.length > 0 ? chain[chain.length - 1] : null;
+}
@@ -0,0 +1,2 @@
+// Shared with the analyze edge function, which ranks the lessons it injects the same way
+export * from "../../supabase/functions/_shared/feedbackLessons.ts";
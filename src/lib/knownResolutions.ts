@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Analysis } from "@/lib/analysisSchema";
+import type { SimilarityQuery } from "@/lib/similarityEngine";
+
+/** A resolved past incident whose fix applies to the log being analyzed */
+export interface KnownResolution {
+  incidentId: string;
+  problemId: string | null;
+  createdAt: string;
+  resolutionNotes: string;
+  rootCauseSummary: string | null;
+  aiSummary: string | null;
+  recommendedFixSteps: string[];
+  longTermPrevention: string | null;
+  impactScope: string | null;
+  affectedService: string | null;
+  /** 1 for the same fingerprint, else the MinHash trace estimate (at least 0.8) */
+  traceSimilarity: number;
+}
+
+function parseFixSteps(stored: string | null): string[] {
+  if (!stored) return [];
+  try {
+    const steps = JSON.parse(stored);
+    return Array.isArray(steps) ? steps.map(String) : [stored];
+  } catch {
+    return [stored];
+  }
+}
+
+/** Look for a resolved incident with notes that shares the new log's fingerprint (see find_known_resolution) */
+export async function findKnownResolution(
+  query: Pick<SimilarityQuery, "stackTraceHash" | "legacyStackTraceHash" | "stackMinHash" | "errorType" | "serviceName">,
+): Promise<KnownResolution | null> {
+  const { data, error } = await supabase.rpc("find_known_resolution", {
+    _stack_trace_hash: query.stackTraceHash,
+    _stack_minhash: query.stackMinHash,
+    _error_type: query.errorType,
+    _service_name: query.serviceName,
+    _legacy_stack_trace_hash: query.legacyStackTraceHash || undefined,
+  });
+
+  if (error || !data || data.length === 0) return null;
+  const row = data[0];
+  return {
+    incidentId: row.id,
+    problemId: row.problem_id,
+    createdAt: row.created_at,
+    resolutionNotes: row.resolution_notes,
+    rootCauseSummary: row.root_cause_summary,
+    aiSummary: row.ai_summary,
+    recommendedFixSteps: parseFixSteps(row.recommended_fix_steps),
+    longTermPrevention: row.long_term_prevention,
+    impactScope: row.impact_scope,
+    affectedService: row.affected_service,
+    traceSimilarity: Number(row.trace_similarity),
+  };
+}
+
+/**
+ * Analysis built from the past incident instead of an LLM call, in the shape
+ * the analyze function returns. The fix that worked leads the steps.
+ */
+export function analysisFromKnownResolution(resolution: KnownResolution, errorType: string): Analysis {
+  return {
+    error_type: errorType,
+    ai_summary: resolution.aiSummary || "",
+    root_cause_summary: resolution.rootCauseSummary || "",
+    recommended_fix_steps: [`Apply the fix that resolved this before: ${resolution.resolutionNotes}`, ...resolution.recommendedFixSteps],
+    long_term_prevention: resolution.longTermPrevention || "",
+    impact_scope: resolution.impactScope || "",
+    affected_service: resolution.affectedService || "Unknown",
+    confidence: 85,
+    confidence_reasoning: "Reuses the fix an engineer confirmed for a past incident with the same fingerprint.",
+    // The past incident's line numbers refer to a different log
+    evidence: { root_cause: [], fix_steps: [] },
+  };
+}
+
+/** What the analyze prompt is told about the past fix */
+export function knownResolutionForPrompt(resolution: KnownResolution) {
+  return {
+    resolutionNotes: resolution.resolutionNotes,
+    rootCauseSummary: resolution.rootCauseSummary,
+    recommendedFixSteps: resolution.recommendedFixSteps,
+    resolvedIncidentDate: resolution.createdAt,
+  };
+}
@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type LLMSettings = Pick<Tables<"llm_settings">, "provider" | "model">;
+
+/** Provider and model both null: the analyze function uses its LLM_PROVIDER default */
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: null,
+  model: null,
+};
+
+/** Providers the analyze function knows; each needs its keys configured on the deployment */
+export const LLM_PROVIDERS = [
+  { id: "lovable", label: "Lovable AI gateway", modelHint: "google/gemini-3-flash-preview" },
+  { id: "openai", label: "OpenAI-compatible", modelHint: "gpt-4o-mini" },
+  { id: "anthropic", label: "Anthropic", modelHint: "claude-3-5-haiku-latest" },
+  { id: "azure", label: "Azure OpenAI", modelHint: "Deployment name" },
+  { id: "self_hosted", label: "Self-hosted (Ollama / vLLM)", modelHint: "llama3.1" },
+  { id: "mock", label: "Mock (offline, for testing)", modelHint: "mock-analyst" },
+] as const;
+
+export async function fetchLLMSettings(userId: string): Promise<LLMSettings> {
+  const { data, error } = await supabase
+    .from("llm_settings")
+    .select("provider, model")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data) return DEFAULT_LLM_SETTINGS;
+  return data;
+}
+
+export async function saveLLMSettings(userId: string, settings: LLMSettings) {
+  return supabase.from("llm_settings").upsert({
+    user_id: userId,
+    ...settings,
+    updated_at: new Date().toISOString(),
+  });
+}
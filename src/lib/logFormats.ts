@@ -0,0 +1,282 @@
+export type LogFormat = "json" | "logfmt" | "syslog" | "log4j" | "plain";
+
+/** Common event model every adapter normalises its records into */
+export interface LogEvent {
+  timestamp: string | null;
+  level: string | null;
+  service: string | null;
+  environment: string | null;
+  traceId: string | null;
+  message: string;
+  /** Multi-line stack trace attached to the event, if any */
+  stackTrace: string | null;
+}
+
+export interface LogFormatAdapter {
+  format: LogFormat;
+  /**
+   * Structured formats are re-rendered as plain text lines before the taxonomy
+   * runs; text formats keep their original lines and only contribute metadata.
+   */
+  structured: boolean;
+  /** Parse a single line, returning null when it isn't a record of this format */
+  parseLine(line: string): LogEvent | null;
+}
+
+export interface NormalizedLog {
+  format: LogFormat;
+  events: LogEvent[];
+  /** Text the rest of the parser pipeline runs over */
+  text: string;
+  serviceName: string | null;
+  environment: string | null;
+  requestId: string | null;
+  timestamp: string | null;
+}
+
+const FIELD_ALIASES = {
+  timestamp: ["timestamp", "@timestamp", "time", "ts", "date", "datetime"],
+  level: ["level", "severity", "levelname", "log.level", "lvl", "loglevel"],
+  service: ["service", "service.name", "service_name", "app", "application", "component"],
+  environment: ["env", "environment", "deployment.environment"],
+  traceId: ["trace_id", "traceId", "trace.id", "request_id", "requestId", "correlation_id", "x-request-id"],
+  message: ["message", "msg", "@message", "log", "event"],
+  /** Error detail logged next to the message, e.g. pino's err or zap's error */
+  error: ["error.message", "err.message", "exception.message", "error", "err"],
+  stackTrace: [
+    "exception.stacktrace", "exception.stack_trace", "error.stack_trace", "error.stack", "err.stack",
+    "stack_trace", "stacktrace", "stack", "exc_info", "exception",
+  ],
+};
+
+// pino and bunyan log numeric levels: 10 trace, 20 debug, 30 info, 40 warn, 50 error, 60 fatal
+const NUMERIC_LEVELS: Array<[number, string]> = [[60, "FATAL"], [50, "ERROR"], [40, "WARN"], [30, "INFO"], [20, "DEBUG"], [10, "TRACE"]];
+
+function normalizeLevel(level: string | null): string | null {
+  if (!level) return null;
+  if (/^\d+$/.test(level)) return NUMERIC_LEVELS.find(([min]) => Number(level) >= min)?.[1] ?? level;
+  return level.toUpperCase();
+}
+
+type Fields = Record<string, unknown>;
+
+/** Look up a dotted key either as a literal key or as a nested path */
+function getField(obj: Fields, key: string): unknown {
+  if (key in obj) return obj[key];
+  let current: unknown = obj;
+  for (const part of key.split(".")) {
+    if (!current || typeof current !== "object" || !(part in (current as Fields))) return undefined;
+    current = (current as Fields)[part];
+  }
+  return current;
+}
+
+function pick(obj: Fields, aliases: string[]): string | null {
+  for (const key of aliases) {
+    const value = getField(obj, key);
+    if (typeof value === "string" && value.trim()) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return null;
+}
+
+function eventFromFields(fields: Fields): LogEvent {
+  const message = pick(fields, FIELD_ALIASES.message) || "";
+  const stackTrace = pick(fields, FIELD_ALIASES.stackTrace);
+  // The error's first line joins the message, so "task failed" still carries the exception the taxonomy matches
+  const [errorLine, ...errorRest] = (pick(fields, FIELD_ALIASES.error) ?? "").split("\n");
+  const joined = errorLine && !message.includes(errorLine) ? [message, errorLine].filter(Boolean).join(": ") : message;
+  return {
+    timestamp: pick(fields, FIELD_ALIASES.timestamp),
+    level: normalizeLevel(pick(fields, FIELD_ALIASES.level)),
+    service: pick(fields, FIELD_ALIASES.service),
+    environment: pick(fields, FIELD_ALIASES.environment),
+    traceId: pick(fields, FIELD_ALIASES.traceId),
+    message: joined,
+    stackTrace: stackTrace || errorRest.join("\n") || null,
+  };
+}
+
+const jsonAdapter: LogFormatAdapter = {
+  format: "json",
+  structured: true,
+  parseLine(line) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("{") || !trimmed.endsWith("}")) return null;
+    try {
+      const parsed = JSON.parse(trimmed);
+      return parsed && typeof parsed === "object" ? eventFromFields(parsed) : null;
+    } catch {
+      return null;
+    }
+  },
+};
+
+const LOGFMT_PAIR = /([\w.@-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+const logfmtAdapter: LogFormatAdapter = {
+  format: "logfmt",
+  structured: true,
+  parseLine(line) {
+    const fields: Fields = {};
+    let consumed = 0;
+    for (const m of line.matchAll(LOGFMT_PAIR)) {
+      const raw = m[2];
+      fields[m[1]] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, (_, c) => (c === "n" ? "\n" : c)) : raw;
+      consumed += m[0].length;
+    }
+    const keys = Object.keys(fields);
+    // Require most of the line to be key=value pairs so prose containing "a=b" isn't misread
+    if (keys.length < 2 || consumed < line.trim().length * 0.6) return null;
+    if (!FIELD_ALIASES.level.some((k) => k in fields) && !FIELD_ALIASES.message.some((k) => k in fields)) return null;
+    return eventFromFields(fields);
+  },
+};
+
+const SYSLOG_SEVERITIES = ["FATAL", "FATAL", "FATAL", "ERROR", "WARN", "INFO", "INFO", "DEBUG"];
+const SYSLOG_5424 = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (?:-|\[.*?\]) ?(.*)$/;
+const SYSLOG_3164 = /^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([\w./-]+)(?:\[\d+\])?: (.*)$/;
+
+const syslogAdapter: LogFormatAdapter = {
+  format: "syslog",
+  structured: false,
+  parseLine(line) {
+    const m5424 = line.match(SYSLOG_5424);
+    if (m5424) {
+      return {
+        timestamp: m5424[2],
+        level: SYSLOG_SEVERITIES[Number(m5424[1]) % 8],
+        service: m5424[4] !== "-" ? m5424[4] : null,
+        environment: null,
+        traceId: null,
+        message: m5424[7],
+        stackTrace: null,
+      };
+    }
+    const m3164 = line.match(SYSLOG_3164);
+    if (m3164) {
+      return {
+        timestamp: m3164[2],
+        level: m3164[1] ? SYSLOG_SEVERITIES[Number(m3164[1]) % 8] : null,
+        service: m3164[4],
+        environment: null,
+        traceId: null,
+        message: m3164[5],
+        stackTrace: null,
+      };
+    }
+    return null;
+  },
+};
+
+// Log4j/Logback default layouts, including Spark's "yy/MM/dd HH:mm:ss LEVEL Logger: msg"
+const LOG4J_LINE =
+  /^(\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:[,.]\d+)?|\d{2}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2})\s+(?:\[[^\]]+\]\s+)?(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|SEVERE)\s+(?:\[[^\]]+\]\s+)?(?:[\w.$]+\s*(?:-|:)\s+)?(.*)$/;
+
+const log4jAdapter: LogFormatAdapter = {
+  format: "log4j",
+  structured: false,
+  parseLine(line) {
+    const m = line.match(LOG4J_LINE);
+    if (!m) return null;
+    return {
+      timestamp: m[1],
+      level: m[2],
+      service: null,
+      environment: null,
+      traceId: null,
+      message: m[3],
+      stackTrace: null,
+    };
+  },
+};
+
+const plainAdapter: LogFormatAdapter = {
+  format: "plain",
+  structured: false,
+  parseLine(line) {
+    return { timestamp: null, level: null, service: null, environment: null, traceId: null, message: line, stackTrace: null };
+  },
+};
+
+const ADAPTERS: LogFormatAdapter[] = [jsonAdapter, logfmtAdapter, syslogAdapter, log4jAdapter];
+
+/** Register an additional adapter; later registrations win ties during detection */
+export function registerLogFormatAdapter(adapter: LogFormatAdapter) {
+  ADAPTERS.unshift(adapter);
+}
+
+const DETECTION_SAMPLE = 200;
+const DETECTION_THRESHOLD = 0.5;
+
+/** Pick the adapter that parses the largest share of a sample of non-empty lines */
+export function detectLogFormat(rawLog: string): LogFormatAdapter {
+  const sample = rawLog.split("\n").filter((l) => l.trim()).slice(0, DETECTION_SAMPLE);
+  if (sample.length === 0) return plainAdapter;
+
+  let best = plainAdapter;
+  let bestScore = DETECTION_THRESHOLD;
+  for (const adapter of ADAPTERS) {
+    const score = sample.filter((l) => adapter.parseLine(l) !== null).length / sample.length;
+    if (score > bestScore) {
+      best = adapter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function renderEvent(event: LogEvent): string {
+  // Timestamp + level mirrors the plain-text layout so info-line filtering still applies
+  const level = event.level ? (event.timestamp ? event.level : `[${event.level}]`) : null;
+  const head = [
+    event.timestamp,
+    level,
+    event.service ? `[${event.service}]` : null,
+    event.message,
+    event.traceId ? `trace_id=${event.traceId}` : null,
+  ].filter(Boolean).join(" ");
+  if (!event.stackTrace) return head;
+  const frames = event.stackTrace.split("\n").map((l) => (/^\s/.test(l) ? l : `  ${l}`));
+  return [head, ...frames].join("\n");
+}
+
+function firstOf(events: LogEvent[], key: keyof LogEvent): string | null {
+  for (const e of events) {
+    const value = e[key];
+    if (value) return value;
+  }
+  return null;
+}
+
+/**
+ * Detect the log format and normalise every record into a LogEvent. Lines an
+ * adapter can't parse are treated as continuations of the previous record
+ * (stack frames, wrapped messages).
+ */
+export function normalizeLog(rawLog: string): NormalizedLog {
+  const adapter = detectLogFormat(rawLog);
+  const events: LogEvent[] = [];
+
+  for (const line of rawLog.split("\n")) {
+    const event = line.trim() ? adapter.parseLine(line) : null;
+    if (event) {
+      events.push(event);
+    } else if (events.length > 0 && line.trim()) {
+      const last = events[events.length - 1];
+      last.stackTrace = last.stackTrace ? `${last.stackTrace}\n${line}` : line;
+    } else if (line.trim()) {
+      events.push(plainAdapter.parseLine(line)!);
+    }
+  }
+
+  return {
+    format: adapter.format,
+    events,
+    text: adapter.structured ? events.map(renderEvent).join("\n") : rawLog,
+    serviceName: firstOf(events, "service"),
+    environment: firstOf(events, "environment"),
+    requestId: firstOf(events, "traceId"),
+    timestamp: firstOf(events, "timestamp"),
+  };
+}
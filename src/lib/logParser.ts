@@ -1,4 +1,9 @@
-export type ErrorType =
+import { normalizeLog, LogFormat } from "@/lib/logFormats";
+import { parseStackTraces, blocksToText, frameSignature, StackFrame, StackTraceBlock } from "@/lib/stackTrace";
+import { buildExceptionChain, ExceptionLink } from "@/lib/exceptionChain";
+import { redact, RedactionPolicy, RedactionReportEntry, DEFAULT_REDACTION_POLICY } from "@/lib/redaction";
+
+export type BuiltInErrorType =
   | "OutOfMemoryError"
   | "NullPointerException"
   | "TimeoutException"
@@ -7,8 +12,31 @@ export type ErrorType =
   | "NetworkError"
   | "UnknownError";
 
+/** Built-in types plus any user-defined taxonomy rule name */
+export type ErrorType = BuiltInErrorType | (string & {});
+
+export interface TaxonomyEntry {
+  type: ErrorType;
+  patterns: RegExp[];
+  /** Breaks ties when several types match the same line; built-ins are 0 */
+  priority: number;
+}
+
+export type ErrorRole = "primary" | "contributing";
+
+export interface DetectedError {
+  type: ErrorType;
+  role: ErrorRole;
+  matchCount: number;
+  /** 1-based line numbers in the normalised log where this type matched */
+  lines: number[];
+  /** True when at least one match sits on an ERROR/FATAL/exception line rather than a warning */
+  fatal: boolean;
+}
+
 export interface ParsedLog {
   detectedErrorType: ErrorType;
+  detectedErrors: DetectedError[];
   errorSnippet: string;
   logSummary: string;
   serviceName: string | null;
@@ -16,12 +44,34 @@ export interface ParsedLog {
   requestId: string | null;
   timestamp: string | null;
   stackTrace: string;
+  /** Parsed trace blocks with frame-level detail, in log order */
+  stackTraces: StackTraceBlock[];
+  /** Exception chain of the final failure, outermost wrapper first and root cause last */
+  exceptionChain: ExceptionLink[];
   cleanedLog: string;
+  /** Full normalised log after redaction, before info lines are dropped or truncated */
+  redactedLog: string;
+  /** 1-based line in `redactedLog` the primary failure is anchored on */
+  failureLine: number | null;
+  logFormat: LogFormat;
+  /** What the redaction policy removed before anything left the browser */
+  redactionReport: RedactionReportEntry[];
+}
+
+export interface ParseOptions {
+  customTaxonomy?: TaxonomyEntry[];
+  redactionPolicy?: RedactionPolicy;
 }
 
-const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
+export const BUILT_IN_ERROR_TYPES: BuiltInErrorType[] = [
+  "OutOfMemoryError", "NullPointerException", "TimeoutException",
+  "PermissionDenied", "SchemaMismatch", "NetworkError", "UnknownError",
+];
+
+const ERROR_TAXONOMY: TaxonomyEntry[] = [
   {
     type: "OutOfMemoryError",
+    priority: 0,
     patterns: [
       /OutOfMemoryError/i, /out of memory/i, /java heap space/i,
       /OOMKilled/i, /memory limit exceeded/i, /GC overhead limit exceeded/i,
@@ -29,6 +79,7 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
   {
     type: "SchemaMismatch",
+    priority: 0,
     patterns: [
       /AnalysisException/i, /cannot resolve column/i, /cannot resolve/i,
       /column not found/i, /unresolved attribute/i, /Schema mismatch/i,
@@ -38,6 +89,7 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
   {
     type: "PermissionDenied",
+    priority: 0,
     patterns: [
       /Permission denied/i, /AccessControlException/i, /not authorized/i,
       /Access denied/i, /Unauthorized/i, /403 Forbidden/i,
@@ -46,6 +98,7 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
   {
     type: "TimeoutException",
+    priority: 0,
     patterns: [
       /TimeoutException/i, /timed out/i, /timeout/i,
       /job aborted due to timeout/i, /connection timeout/i,
@@ -54,6 +107,7 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
   {
     type: "NetworkError",
+    priority: 0,
     patterns: [
       /Connection refused/i, /Connection reset/i, /JDBCConnectionException/i,
       /network.*unreachable/i, /host.*not found/i, /DNS resolution failed/i,
@@ -61,6 +115,7 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
   {
     type: "NullPointerException",
+    priority: 0,
     patterns: [
       /NullPointerException/i, /NullReferenceException/i, /null pointer/i,
       /cannot read propert/i, /is not defined/i, /AttributeError.*NoneType/i,
@@ -68,20 +123,16 @@ const ERROR_TAXONOMY: Array<{ type: ErrorType; patterns: RegExp[] }> = [
   },
 ];
 
-// PII patterns to mask
-const PII_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
-  { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, replacement: "[EMAIL_REDACTED]" },
-  { pattern: /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g, replacement: "[CARD_REDACTED]" },
-  { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: "[SSN_REDACTED]" },
-  { pattern: /\b\d{9,12}\b/g, replacement: "[ACCT_REDACTED]" },
-  { pattern: /(?:password|passwd|secret|token|api_key|apikey)\s*[:=]\s*\S+/gi, replacement: "[CREDENTIAL_REDACTED]" },
-];
+const FATAL_LINE_PATTERN = /\b(?:ERROR|FATAL|SEVERE|CRITICAL)\b|Exception|Error:|Caused by:|Traceback|panic:/;
+const WARN_LINE_PATTERN = /\b(?:WARN|WARNING)\b|retrying|will retry/i;
 
+// Key-value forms stay on one line; bracketed all-caps tokens are levels, statuses
+// ([RUN]) or redaction placeholders ([IP_REDACTED]), never service names
 const SERVICE_PATTERNS = [
-  /service[:\s=]+["']?(\S+?)["']?(?:\s|$|,)/i,
-  /\[([a-zA-Z][\w.-]+)\]/,
-  /(\w+[-.]service)/i,
-  /component[:\s=]+["']?(\S+?)["']?(?:\s|$|,)/i,
+  /\bservice[:=][ \t]*["']?([^\s"',]+)/i,
+  /\[(?![A-Z_]+\])([a-zA-Z][\w.-]+)\]/,
+  /\b([\w-]+[-.]service)\b/i,
+  /\bcomponent[:=][ \t]*["']?([^\s"',]+)/i,
 ];
 
 const ENV_PATTERNS = [
@@ -106,23 +157,6 @@ function extractMatch(text: string, patterns: RegExp[]): string | null {
   return null;
 }
 
-function extractStackTrace(log: string): string {
-  const lines = log.split("\n");
-  const traceLines: string[] = [];
-  let inTrace = false;
-  for (const line of lines) {
-    if (/^\s+at\s|Caused by:|Traceback|File\s+"/.test(line)) {
-      inTrace = true;
-      traceLines.push(line);
-    } else if (inTrace && /^\s/.test(line)) {
-      traceLines.push(line);
-    } else {
-      inTrace = false;
-    }
-  }
-  return traceLines.join("\n");
-}
-
 function deduplicateStackTraces(log: string): string {
   const lines = log.split("\n");
   const seen = new Set<string>();
@@ -161,38 +195,201 @@ function removeInfoLines(log: string): string {
     .join("\n");
 }
 
-function maskPII(log: string): string {
-  let masked = log;
-  for (const { pattern, replacement } of PII_PATTERNS) {
-    masked = masked.replace(pattern, replacement);
-  }
-  return masked;
+/** Context kept around each relevant line, in lines before / after */
+const WINDOW_BEFORE = 5;
+const WINDOW_AFTER = 10;
+/** The failure itself gets a wider window */
+const FAILURE_WINDOW = 25;
+/** Lines within this many seconds of the failure count as near it */
+const NEAR_FAILURE_SECONDS = 60;
+/** Room reserved for one "... [N lines omitted] ..." marker */
+const OMISSION_MARKER_CHARS = 34;
+/** Single lines longer than this are clipped so one giant line can't eat the budget */
+const MAX_LINE_CHARS = 2000;
+
+const FRAME_LINE_PATTERN = /^\s+at\s|^\s*File ".+", line \d+|^\s+\S+\.go:\d+|^\s*Caused by:/;
+
+function lineTime(line: string): number | null {
+  const m = line.match(TIMESTAMP_PATTERN);
+  if (!m) return null;
+  const t = Date.parse(m[1].replace(" ", "T"));
+  return Number.isNaN(t) ? null : t;
 }
 
-function truncateLog(log: string, maxChars = 12000): string {
+function scoreLines(lines: string[], taxonomy: TaxonomyEntry[], failure: number): number[] {
+  const failureTime = failure >= 0 ? lineTime(lines[failure]) : null;
+  return lines.map((line) => {
+    let score = 0;
+    if (isFatalLine(line)) score += 5;
+    else if (WARN_LINE_PATTERN.test(line)) score += 2;
+    if (FRAME_LINE_PATTERN.test(line)) score += 1;
+    if (taxonomy.some((e) => e.patterns.some((p) => p.test(line)))) score += 4;
+    if (failureTime !== null) {
+      const t = lineTime(line);
+      if (t !== null && Math.abs(failureTime - t) <= NEAR_FAILURE_SECONDS * 1000) score += 2;
+    }
+    return score;
+  });
+}
+
+/**
+ * Fit a log into maxChars by keeping windows around its most relevant lines.
+ * Lines are scored on fatal/warn keywords, stack frames, taxonomy hits and
+ * timestamps close to the failure; the failure (last fatal line) is kept
+ * first, then windows around the next highest-scoring lines until the budget
+ * runs out. Dropped runs are replaced with "[N lines omitted]" markers.
+ */
+export function truncateLog(log: string, taxonomy: TaxonomyEntry[] = ERROR_TAXONOMY, maxChars = 12000): string {
   if (log.length <= maxChars) return log;
+  const lines = log.split("\n").map((l) => (l.length > MAX_LINE_CHARS ? `${l.slice(0, MAX_LINE_CHARS)} ...[clipped]` : l));
+
+  let failure = -1;
+  for (let i = lines.length - 1; i >= 0 && failure < 0; i--) {
+    if (isFatalLine(lines[i])) failure = i;
+  }
+  const scores = scoreLines(lines, taxonomy, failure);
+
+  // Seeds in order of relevance, the failure first; later lines win ties since failures come last
+  const seeds = lines
+    .map((_, i) => i)
+    .filter((i) => scores[i] > 0 && i !== failure)
+    .sort((a, b) => scores[b] - scores[a] || b - a);
+  const windows = [
+    failure >= 0
+      ? { seed: failure, from: failure - FAILURE_WINDOW, to: failure + FAILURE_WINDOW }
+      : { seed: lines.length - 1, from: lines.length - 1 - FAILURE_WINDOW * 2, to: lines.length - 1 },
+    ...seeds.map((i) => ({ seed: i, from: i - WINDOW_BEFORE, to: i + WINDOW_AFTER })),
+  ];
+
+  // Grow each window outward from its seed so a window that only partly fits keeps its centre
+  const keep = new Uint8Array(lines.length);
+  // One marker more than there are windows: a run can be omitted after the last one
+  let used = OMISSION_MARKER_CHARS;
+  fill: for (const { seed, from, to } of windows) {
+    let opened = false;
+    for (let d = 0; seed - d >= from || seed + d <= to; d++) {
+      for (const i of d === 0 ? [seed] : [seed - d, seed + d]) {
+        if (i < Math.max(0, from) || i > Math.min(lines.length - 1, to) || keep[i]) continue;
+        // Each window may add an omission marker
+        const cost = lines[i].length + 1 + (opened ? 0 : OMISSION_MARKER_CHARS);
+        if (used + cost > maxChars) break fill;
+        keep[i] = 1;
+        used += cost;
+        opened = true;
+      }
+    }
+  }
+
+  const out: string[] = [];
+  let omitted = 0;
+  for (let i = 0; i < lines.length; i++) {
+    if (keep[i]) {
+      if (omitted > 0) out.push(`... [${omitted} lines omitted] ...`);
+      omitted = 0;
+      out.push(lines[i]);
+    } else {
+      omitted++;
+    }
+  }
+  if (omitted > 0) out.push(`... [${omitted} lines omitted] ...`);
+  return out.join("\n");
+}
+
+function extractErrorSnippet(log: string, lineNumber: number): string {
   const lines = log.split("\n");
-  // Keep first 30% and last 70% to prioritize error area
-  const headCount = Math.floor(lines.length * 0.3);
-  const tailCount = Math.floor(lines.length * 0.7);
-  const head = lines.slice(0, headCount);
-  const tail = lines.slice(-tailCount);
-  const combined = [...head, `\n... [${lines.length - headCount - tailCount} lines truncated] ...\n`, ...tail].join("\n");
-  return combined.substring(0, maxChars);
+  const i = lineNumber - 1;
+  const start = Math.max(0, i - 1);
+  const end = Math.min(lines.length, i + 4);
+  return lines.slice(start, end).join("\n").trim();
+}
+
+function isFatalLine(line: string): boolean {
+  return FATAL_LINE_PATTERN.test(line) && !WARN_LINE_PATTERN.test(line);
+}
+
+/** Warnings and retries: lines that signal trouble without ending the run */
+export function isWarningLine(line: string): boolean {
+  return WARN_LINE_PATTERN.test(line);
 }
 
-function extractErrorSnippet(log: string, patterns: RegExp[]): string {
+/**
+ * Scan every line against the taxonomy and rank all matching error types.
+ * The primary error is the type with the latest fatal match (the failure that
+ * actually ended the run); everything else is contributing, ordered by
+ * fatality, match count and recency.
+ */
+function detectErrors(log: string, taxonomy: TaxonomyEntry[]): DetectedError[] {
   const lines = log.split("\n");
-  for (const pattern of patterns) {
-    for (let i = 0; i < lines.length; i++) {
-      if (pattern.test(lines[i])) {
-        const start = Math.max(0, i - 1);
-        const end = Math.min(lines.length, i + 4);
-        return lines.slice(start, end).join("\n").trim();
-      }
+  const priorities = new Map(taxonomy.map((e) => [e.type, e.priority]));
+  const hits = new Map<ErrorType, { lines: number[]; fatalLines: number[] }>();
+
+  lines.forEach((line, i) => {
+    const fatal = isFatalLine(line);
+    for (const { type, patterns } of taxonomy) {
+      if (!patterns.some((p) => p.test(line))) continue;
+      const entry = hits.get(type) || { lines: [], fatalLines: [] };
+      entry.lines.push(i + 1);
+      if (fatal) entry.fatalLines.push(i + 1);
+      hits.set(type, entry);
+    }
+  });
+
+  const ranked = [...hits.entries()]
+    .map(([type, { lines: matched, fatalLines }]) => ({
+      type,
+      matchCount: matched.length,
+      lines: matched,
+      fatal: fatalLines.length > 0,
+      anchor: fatalLines.length > 0 ? fatalLines[fatalLines.length - 1] : matched[matched.length - 1],
+      priority: priorities.get(type) || 0,
+    }))
+    .sort((a, b) => {
+      if (a.fatal !== b.fatal) return a.fatal ? -1 : 1;
+      if (a.anchor !== b.anchor) return b.anchor - a.anchor;
+      return b.priority - a.priority;
+    });
+
+  if (ranked.length === 0) return [];
+
+  const [primary, ...rest] = ranked;
+  rest.sort((a, b) => {
+    if (a.fatal !== b.fatal) return a.fatal ? -1 : 1;
+    if (a.priority !== b.priority) return b.priority - a.priority;
+    if (a.matchCount !== b.matchCount) return b.matchCount - a.matchCount;
+    return b.anchor - a.anchor;
+  });
+
+  return [primary, ...rest].map(({ anchor, priority, ...e }, i): DetectedError => ({
+    ...e,
+    role: i === 0 ? "primary" : "contributing",
+  }));
+}
+
+/**
+ * Merge user-defined rules into the built-in taxonomy. A custom rule whose name
+ * matches a built-in type extends that type's patterns instead of shadowing it.
+ */
+export function mergeTaxonomy(custom: TaxonomyEntry[] = []): TaxonomyEntry[] {
+  const merged = ERROR_TAXONOMY.map((e) => ({ ...e, patterns: [...e.patterns] }));
+  for (const entry of custom) {
+    const existing = merged.find((e) => e.type === entry.type);
+    if (existing) {
+      existing.patterns.push(...entry.patterns);
+      existing.priority = Math.max(existing.priority, entry.priority);
+    } else {
+      merged.push({ ...entry, patterns: [...entry.patterns] });
     }
   }
-  return lines.slice(-5).join("\n").trim();
+  return merged;
+}
+
+/** Line the snippet should be centred on: the last fatal match of the error, else its last match */
+function anchorLine(error: DetectedError, log: string): number {
+  const lines = log.split("\n");
+  for (let i = error.lines.length - 1; i >= 0; i--) {
+    if (isFatalLine(lines[error.lines[i] - 1])) return error.lines[i];
+  }
+  return error.lines[error.lines.length - 1];
 }
 
 function summarizeLog(log: string): string {
@@ -202,55 +399,65 @@ function summarizeLog(log: string): string {
   return `${totalLines} lines. Preview: ${preview.substring(0, 200)}${preview.length > 200 ? "..." : ""}`;
 }
 
-export function parseLog(rawLog: string): ParsedLog {
-  // Step 1: Extract metadata before cleaning
-  const serviceName = extractMatch(rawLog, SERVICE_PATTERNS);
-  const environment = extractMatch(rawLog, ENV_PATTERNS);
-  const requestId = extractMatch(rawLog, REQUEST_ID_PATTERNS);
-  const timestampMatch = rawLog.match(TIMESTAMP_PATTERN);
-  const timestamp = timestampMatch?.[1] || null;
-  const stackTrace = extractStackTrace(rawLog);
-
-  // Step 2: Preprocessing pipeline
-  let cleaned = removeInfoLines(rawLog);
+export function parseLog(rawLog: string, options: ParseOptions = {}): ParsedLog {
+  const { customTaxonomy = [], redactionPolicy = DEFAULT_REDACTION_POLICY } = options;
+
+  // Step 1: Normalise structured formats (JSON lines, logfmt, ...) into plain event lines
+  const normalized = normalizeLog(rawLog);
+
+  // Step 2: Redact PII and secrets up front so snippets, traces and metadata are all clean
+  const { text: log, report: redactionReport } = redact(normalized.text, redactionPolicy);
+
+  // Step 3: Extract metadata, preferring explicit fields over regex matches
+  const serviceName = normalized.serviceName || extractMatch(log, SERVICE_PATTERNS);
+  const environment = normalized.environment || extractMatch(log, ENV_PATTERNS);
+  const requestId = normalized.requestId || extractMatch(log, REQUEST_ID_PATTERNS);
+  const timestamp = normalized.timestamp || log.match(TIMESTAMP_PATTERN)?.[1] || null;
+  const stackTraces = parseStackTraces(log);
+  const stackTrace = blocksToText(log, stackTraces);
+  const exceptionChain = buildExceptionChain(log, stackTraces);
+
+  // Step 4: Preprocessing pipeline
+  const taxonomy = mergeTaxonomy(customTaxonomy);
+  let cleaned = removeInfoLines(log);
   cleaned = deduplicateStackTraces(cleaned);
-  cleaned = maskPII(cleaned);
-  cleaned = truncateLog(cleaned);
-
-  // Step 3: Detect error type
-  for (const { type, patterns } of ERROR_TAXONOMY) {
-    if (patterns.some((p) => p.test(rawLog))) {
-      return {
-        detectedErrorType: type,
-        errorSnippet: extractErrorSnippet(rawLog, patterns),
-        logSummary: summarizeLog(cleaned),
-        serviceName,
-        environment,
-        requestId,
-        timestamp,
-        stackTrace,
-        cleanedLog: cleaned,
-      };
-    }
-  }
+  cleaned = truncateLog(cleaned, taxonomy);
+
+  // Step 5: Detect and rank error types
+  const detectedErrors = detectErrors(log, taxonomy);
+  const primary = detectedErrors[0];
+  const failureLine = primary ? anchorLine(primary, log) : null;
 
   return {
-    detectedErrorType: "UnknownError",
-    errorSnippet: rawLog.split("\n").slice(-5).join("\n").trim(),
+    detectedErrorType: primary?.type || "UnknownError",
+    detectedErrors,
+    errorSnippet: failureLine
+      ? extractErrorSnippet(log, failureLine)
+      : log.split("\n").slice(-5).join("\n").trim(),
     logSummary: summarizeLog(cleaned),
     serviceName,
     environment,
     requestId,
     timestamp,
     stackTrace,
+    stackTraces,
+    exceptionChain,
     cleanedLog: cleaned,
+    redactedLog: log,
+    failureLine,
+    logFormat: normalized.format,
+    redactionReport,
   };
 }
 
-/** Strip leading/trailing square brackets from LLM output */
-export function cleanLLMOutput(text: string): string {
-  if (!text) return text;
-  return text.replace(/^\[|\]$/g, "").trim();
+function simpleHash(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    const chr = text.charCodeAt(i);
+    hash = ((hash << 5) - hash) + chr;
+    hash |= 0;
+  }
+  return Math.abs(hash).toString(36);
 }
 
 /** Generate a simple hash from a stack trace for similarity matching */
@@ -262,12 +469,32 @@ export function hashStackTrace(stackTrace: string): string {
     .replace(/0x[0-9a-f]+/gi, "0xADDR")
     .replace(/\d{4}-\d{2}-\d{2}[T\s]\d{2}:\d{2}:\d{2}\S*/g, "TIMESTAMP")
     .trim();
-  // Simple hash
-  let hash = 0;
-  for (let i = 0; i < normalized.length; i++) {
-    const chr = normalized.charCodeAt(i);
-    hash = ((hash << 5) - hash) + chr;
-    hash |= 0;
+  return simpleHash(normalized);
+}
+
+/**
+ * The stack_trace_hash incidents were saved with before frames were parsed:
+ * every trace-looking line of the raw log, hashed by hashStackTrace. Stored
+ * next to the frame hash so new logs still match those incidents.
+ */
+export function legacyStackTraceHash(rawLog: string): string {
+  const traceLines: string[] = [];
+  let inTrace = false;
+  for (const line of rawLog.split("\n")) {
+    if (/^\s+at\s|Caused by:|Traceback|File\s+"/.test(line)) {
+      inTrace = true;
+      traceLines.push(line);
+    } else if (inTrace && /^\s/.test(line)) {
+      traceLines.push(line);
+    } else {
+      inTrace = false;
+    }
   }
-  return Math.abs(hash).toString(36);
+  return hashStackTrace(traceLines.join("\n"));
+}
+
+/** Hash parsed frames by signature, so line-number and formatting changes don't alter it */
+export function hashStackFrames(frames: StackFrame[]): string {
+  if (frames.length === 0) return "";
+  return simpleHash(frames.map(frameSignature).join("\n"));
 }
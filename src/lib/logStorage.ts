@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { redact, RedactionPolicy } from "@/lib/redaction";
+
+export type LogStorageSettings = Pick<Tables<"log_storage_settings">, "keep_encrypted_original" | "retention_days">;
+
+export const DEFAULT_LOG_STORAGE_SETTINGS: LogStorageSettings = {
+  keep_encrypted_original: false,
+  retention_days: null,
+};
+
+/** Characters of raw log kept per analysis */
+const MAX_STORED_LOG = 50000;
+
+export async function fetchLogStorageSettings(userId: string): Promise<LogStorageSettings> {
+  const { data, error } = await supabase
+    .from("log_storage_settings")
+    .select("keep_encrypted_original, retention_days")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data) return DEFAULT_LOG_STORAGE_SETTINGS;
+  return data;
+}
+
+export async function saveLogStorageSettings(userId: string, settings: LogStorageSettings) {
+  return supabase.from("log_storage_settings").upsert({
+    user_id: userId,
+    ...settings,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+/** The only form of a raw log written to plain-text columns */
+export function redactedLogForStorage(rawLog: string, policy: RedactionPolicy): string {
+  return redact(rawLog, policy).text.substring(0, MAX_STORED_LOG);
+}
+
+/**
+ * Keep the unredacted original, encrypted in the database with the user's own
+ * key. The key is created on first use and never leaves the database.
+ */
+export async function storeEncryptedOriginal(analysisId: string | null, incidentId: string | null, rawLog: string) {
+  return supabase.rpc("store_encrypted_raw_log", {
+    _analysis_id: analysisId,
+    _incident_id: incidentId,
+    _raw_log: rawLog.substring(0, MAX_STORED_LOG),
+  });
+}
+
+/** Decrypt the original kept for an incident; data is null when none was kept or it was purged */
+export async function fetchEncryptedOriginal(incidentId: string) {
+  return supabase.rpc("decrypt_raw_log", { _incident_id: incidentId });
+}
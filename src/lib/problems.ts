@@ -0,0 +1,62 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Problem = Omit<Tables<"problems">, "user_id">;
+
+export const PROBLEM_STATUSES = ["Open", "Known Issue", "Resolved"] as const;
+
+export type ProblemStatus = (typeof PROBLEM_STATUSES)[number];
+
+export function problemStatusClass(status: string) {
+  return status === "Resolved" ? "bg-green-500/15 text-green-700 border-green-500/30 dark:text-green-400" :
+    status === "Known Issue" ? "bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-400" :
+    "bg-orange-500/15 text-orange-600 border-orange-500/30 dark:text-orange-400";
+}
+
+/** Client-side twin of the incident_fingerprint SQL function */
+export function incidentFingerprint(stackTraceHash: string, errorType: string, serviceName: string | null): string {
+  return stackTraceHash ? `trace:${stackTraceHash}` : `type:${errorType.toLowerCase()}|${(serviceName ?? "").toLowerCase()}`;
+}
+
+const PROBLEM_COLUMNS =
+  "id, created_at, updated_at, title, error_type, fingerprints, first_seen, last_seen, occurrence_count, affected_services, status, notes";
+
+export async function fetchProblems(userId: string): Promise<Problem[]> {
+  const { data, error } = await supabase
+    .from("problems")
+    .select(PROBLEM_COLUMNS)
+    .eq("user_id", userId)
+    .order("last_seen", { ascending: false })
+    .limit(200);
+
+  if (error || !data) return [];
+  return data;
+}
+
+export async function fetchProblem(problemId: string): Promise<Problem | null> {
+  const { data, error } = await supabase
+    .from("problems")
+    .select(PROBLEM_COLUMNS)
+    .eq("id", problemId)
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return data;
+}
+
+export async function updateProblem(problemId: string, changes: Partial<Pick<Problem, "title" | "status" | "notes">>) {
+  return supabase
+    .from("problems")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", problemId);
+}
+
+/** Fold the sources into the target; their fingerprints route to the target from now on */
+export async function mergeProblems(targetId: string, sourceIds: string[]) {
+  return supabase.rpc("merge_problems", { _target_id: targetId, _source_ids: sourceIds });
+}
+
+/** Move incidents into a new problem; resolves to the new problem's id */
+export async function splitProblem(problemId: string, incidentIds: string[]) {
+  return supabase.rpc("split_problem", { _problem_id: problemId, _incident_ids: incidentIds });
+}
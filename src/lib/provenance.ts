@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Provenance } from "@/lib/analysisSchema";
+
+export type { Provenance };
+
+/** Provenance columns shared by incidents and log_analyses; all empty when no AI call was made */
+export function provenanceColumns(provenance: Provenance | null | undefined) {
+  return {
+    prompt_version: provenance?.promptVersion ?? null,
+    llm_provider: provenance?.provider ?? null,
+    llm_model: provenance?.model ?? null,
+    llm_temperature: provenance?.temperature ?? null,
+    prompt_tokens: provenance?.promptTokens ?? null,
+    completion_tokens: provenance?.completionTokens ?? null,
+    feedback_lesson_ids: provenance?.feedbackLessonIds ?? [],
+  };
+}
+
+export interface FeedbackLesson {
+  id: string;
+  incidentId: string;
+  sectionName: string;
+  comment: string | null;
+}
+
+/** The engineer corrections that were injected into an analysis' prompt */
+export async function fetchFeedbackLessons(ids: string[]): Promise<FeedbackLesson[]> {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from("incident_feedback")
+    .select("id, incident_id, section_name, comment")
+    .in("id", ids);
+
+  if (error || !data) return [];
+  return data.map((row) => ({ id: row.id, incidentId: row.incident_id, sectionName: row.section_name, comment: row.comment }));
+}
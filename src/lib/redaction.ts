@@ -0,0 +1,254 @@
+export type RedactionCategory = "personal" | "credential" | "network";
+
+export interface RedactionDetector {
+  id: string;
+  label: string;
+  category: RedactionCategory;
+  /** Must be global; the first capture group that matched, when there is one, is the only part replaced */
+  pattern: RegExp;
+  replacement: string;
+}
+
+export interface CustomRedactionPattern {
+  name: string;
+  pattern: string;
+}
+
+export interface RedactionPolicy {
+  /** Detector ids switched off by the user */
+  disabledDetectors: string[];
+  /** Values never redacted: literal strings, or /regex/ entries */
+  allowList: string[];
+  customPatterns: CustomRedactionPattern[];
+}
+
+export interface RedactionReportEntry {
+  detectorId: string;
+  label: string;
+  category: RedactionCategory;
+  count: number;
+  /** 1-based line numbers of the redacted values */
+  lines: number[];
+}
+
+export interface RedactionResult {
+  text: string;
+  report: RedactionReportEntry[];
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  disabledDetectors: [],
+  allowList: [],
+  customPatterns: [],
+};
+
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+
+// Order matters: multi-line and URL-shaped secrets run before the generic key=value detector
+export const REDACTION_DETECTORS: RedactionDetector[] = [
+  {
+    id: "private_key",
+    label: "Private keys",
+    category: "credential",
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+    replacement: "[PRIVATE_KEY_REDACTED]",
+  },
+  {
+    id: "url_userinfo",
+    label: "URLs with credentials",
+    category: "credential",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/([^\s:/@]+:[^\s/@]+)@/gi,
+    replacement: "[USERINFO_REDACTED]",
+  },
+  {
+    id: "connection_string_password",
+    label: "Connection string passwords",
+    category: "credential",
+    pattern: /\b(?:password|pwd|AccountKey|SharedAccessKey)=([^;\s"']+)/gi,
+    replacement: "[PASSWORD_REDACTED]",
+  },
+  {
+    id: "aws_access_key",
+    label: "AWS access key IDs",
+    category: "credential",
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g,
+    replacement: "[AWS_KEY_REDACTED]",
+  },
+  {
+    id: "aws_secret_key",
+    label: "AWS secret access keys",
+    category: "credential",
+    pattern: /aws_secret_access_key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})/gi,
+    replacement: "[AWS_SECRET_REDACTED]",
+  },
+  {
+    id: "gcp_api_key",
+    label: "Google Cloud API keys",
+    category: "credential",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    replacement: "[GCP_KEY_REDACTED]",
+  },
+  {
+    id: "vendor_token",
+    label: "GitHub / Slack tokens",
+    category: "credential",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|xox[abprs]-[A-Za-z0-9-]{10,})\b/g,
+    replacement: "[TOKEN_REDACTED]",
+  },
+  {
+    id: "jwt",
+    label: "JSON Web Tokens",
+    category: "credential",
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]+/g,
+    replacement: "[JWT_REDACTED]",
+  },
+  {
+    id: "bearer_token",
+    label: "Bearer tokens",
+    category: "credential",
+    pattern: /\bBearer\s+([A-Za-z0-9\-._~+/]+=*)/g,
+    replacement: "[BEARER_REDACTED]",
+  },
+  {
+    id: "credential_assignment",
+    label: "Passwords, secrets and API keys",
+    category: "credential",
+    // A JSON or quoted value is redacted up to its closing quote, a bare one up to the next space
+    pattern: /(?:password|passwd|secret|token|api_key|apikey)["']?\s*[:=]\s*(?:["'](?!\[)([^"'\n]+)|(?!["'[])(\S+))/gi,
+    replacement: "[CREDENTIAL_REDACTED]",
+  },
+  {
+    id: "email",
+    label: "Email addresses",
+    category: "personal",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replacement: "[EMAIL_REDACTED]",
+  },
+  {
+    id: "credit_card",
+    label: "Card numbers",
+    category: "personal",
+    pattern: /\b\d{4}[ -]?\d{4}[ -]?\d{4}[ -]?\d{4}\b/g,
+    replacement: "[CARD_REDACTED]",
+  },
+  {
+    id: "ssn",
+    label: "Social security numbers",
+    category: "personal",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    replacement: "[SSN_REDACTED]",
+  },
+  {
+    // Only numbers labelled as accounts; bare 9-12 digit runs are usually epoch timestamps or job IDs
+    id: "account_number",
+    label: "Account numbers",
+    category: "personal",
+    pattern: /\b(?:account|acct|iban|routing)(?:[\s_-]?(?:no|num|number|id))?[\s#:=]+(\d{9,12})\b/gi,
+    replacement: "[ACCT_REDACTED]",
+  },
+  {
+    id: "ipv4",
+    label: "IPv4 addresses",
+    category: "network",
+    pattern: new RegExp(`\\b${IPV4_OCTET}(?:\\.${IPV4_OCTET}){3}\\b`, "g"),
+    replacement: "[IP_REDACTED]",
+  },
+  {
+    id: "ipv6",
+    label: "IPv6 addresses",
+    category: "network",
+    // A compressed address needs a digit, so hex-only paths such as db::add in Rust or C++ traces stay
+    pattern: /(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])|(?<![\w:])(?=[0-9a-f:]*\d)(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?(?![\w:])/gi,
+    replacement: "[IP_REDACTED]",
+  },
+];
+
+function compileAllowList(allowList: string[]): Array<(value: string) => boolean> {
+  return allowList.map((entry) => {
+    const regex = entry.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      try {
+        const re = new RegExp(regex[1], regex[2].replace("g", ""));
+        return (value: string) => re.test(value);
+      } catch {
+        return () => false;
+      }
+    }
+    return (value: string) => value === entry;
+  });
+}
+
+function customDetectors(patterns: CustomRedactionPattern[]): RedactionDetector[] {
+  return patterns.flatMap(({ name, pattern }, i) => {
+    try {
+      return [{
+        id: `custom_${i}`,
+        label: name,
+        category: "credential" as const,
+        pattern: new RegExp(pattern, "gi"),
+        replacement: `[${name.toUpperCase().replace(/\W+/g, "_")}_REDACTED]`,
+      }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/** Offsets of every newline, so match offsets map to line numbers by binary search */
+function newlineOffsets(text: string): number[] {
+  const offsets: number[] = [];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) offsets.push(i);
+  return offsets;
+}
+
+function lineAt(newlines: number[], offset: number): number {
+  let lo = 0;
+  let hi = newlines.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (newlines[mid] < offset) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo + 1;
+}
+
+/**
+ * Apply every enabled detector to the text. Replacements keep the number of
+ * newlines of the original match, so line numbers stay stable for the
+ * snippet and stack trace extraction that runs on the redacted text.
+ */
+export function redact(text: string, policy: RedactionPolicy = DEFAULT_REDACTION_POLICY): RedactionResult {
+  const allowed = compileAllowList(policy.allowList);
+  const detectors = [
+    ...REDACTION_DETECTORS.filter((d) => !policy.disabledDetectors.includes(d.id)),
+    ...customDetectors(policy.customPatterns),
+  ];
+  const report: RedactionReportEntry[] = [];
+  let result = text;
+
+  for (const detector of detectors) {
+    const entry: RedactionReportEntry = {
+      detectorId: detector.id, label: detector.label, category: detector.category, count: 0, lines: [],
+    };
+    const newlines = newlineOffsets(result);
+    result = result.replace(detector.pattern, (match: string, ...args: unknown[]) => {
+      const offsetAt = args.findIndex((a) => typeof a === "number");
+      const offset = args[offsetAt] as number;
+      const group = (args.slice(0, offsetAt).find((a) => typeof a === "string") as string | undefined) ?? null;
+      const secret = group ?? match;
+      if (allowed.some((isAllowed) => isAllowed(secret) || isAllowed(match))) return match;
+
+      entry.count++;
+      const at = group ? match.lastIndexOf(group) : 0;
+      const line = lineAt(newlines, offset + at);
+      if (entry.lines[entry.lines.length - 1] !== line) entry.lines.push(line);
+      // Only the replaced part loses its newlines; a kept prefix or suffix still has its own
+      const keptNewlines = "\n".repeat((secret.match(/\n/g) || []).length);
+      if (!group) return detector.replacement + keptNewlines;
+      return match.slice(0, at) + detector.replacement + keptNewlines + match.slice(at + group.length);
+    });
+    if (entry.count > 0) report.push(entry);
+  }
+
+  return { text: result, report };
+}
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_REDACTION_POLICY, CustomRedactionPattern, RedactionPolicy } from "@/lib/redaction";
+
+type RedactionPolicyRow = Tables<"redaction_policies">;
+
+function fromRow(row: RedactionPolicyRow): RedactionPolicy {
+  const custom = Array.isArray(row.custom_patterns) ? (row.custom_patterns as unknown as CustomRedactionPattern[]) : [];
+  return {
+    disabledDetectors: row.disabled_detectors,
+    allowList: row.allow_list,
+    customPatterns: custom.filter((p) => typeof p?.name === "string" && typeof p?.pattern === "string"),
+  };
+}
+
+/** The user's saved policy, or the default (every detector on) when none is saved */
+export async function fetchRedactionPolicy(userId: string): Promise<RedactionPolicy> {
+  const { data, error } = await supabase
+    .from("redaction_policies")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error || !data) return DEFAULT_REDACTION_POLICY;
+  return fromRow(data);
+}
+
+export async function saveRedactionPolicy(userId: string, policy: RedactionPolicy) {
+  return supabase.from("redaction_policies").upsert({
+    user_id: userId,
+    disabled_detectors: policy.disabledDetectors,
+    allow_list: policy.allowList,
+    custom_patterns: policy.customPatterns.map((p) => ({ name: p.name, pattern: p.pattern })),
+    updated_at: new Date().toISOString(),
+  });
+}
@@ -1,75 +1,128 @@
 import { supabase } from "@/integrations/supabase/client";
+import { toVectorLiteral } from "@/lib/embeddings";
+
+export type SimilaritySignalId = "stack_trace" | "message" | "error_type" | "time" | "service" | "environment";
+
+/** One signal's contribution to a similarity score */
+export interface SimilaritySignal {
+  signal: SimilaritySignalId;
+  /** How closely this signal matched, 0-1 */
+  similarity: number;
+  /** Maximum points the signal can contribute */
+  weight: number;
+  points: number;
+}
+
+export const SIMILARITY_SIGNAL_LABELS: Record<SimilaritySignalId, string> = {
+  stack_trace: "Stack trace overlap",
+  message: "Root cause / message similarity",
+  error_type: "Same error type",
+  time: "Time proximity",
+  service: "Same service",
+  environment: "Same environment",
+};
 
 export interface SimilarIncident {
   id: string;
   created_at: string;
   error_type: string | null;
   service_name: string | null;
+  environment: string | null;
   root_cause_summary: string | null;
   ai_summary: string | null;
   resolution_notes: string | null;
   status: string;
   similarityScore: number;
+  /** Estimated overlap of stack frames (0-1); 1 when the trace hashes are identical */
+  traceSimilarity: number;
+  /** Cosine similarity (0-1) of the AI summary embeddings; 0 when either side has none */
+  semanticSimilarity: number;
+  /** Why this incident matched, e.g. "Stack trace 82% similar", "Same service: billing" */
+  matchReasons: string[];
+  breakdown: SimilaritySignal[];
 }
 
-interface MatchParams {
-  userId: string;
+export interface SimilarityQuery {
   stackTraceHash: string;
+  /** Text hash older incidents were saved with, see legacyStackTraceHash */
+  legacyStackTraceHash?: string | null;
+  /** MinHash of the new trace's frames, see minHashFrames */
+  stackMinHash: number[];
   errorType: string;
   serviceName: string | null;
+  environment: string | null;
+  /** Embedding of the new analysis' summary, see embedTexts */
+  embedding: number[] | null;
+  embeddingModel: string | null;
+  /** The new log's own incident, so it never lists itself */
+  excludeIncidentId?: string | null;
 }
 
-export async function findSimilarIncidents(params: MatchParams): Promise<SimilarIncident[]> {
-  const { userId, stackTraceHash, errorType, serviceName } = params;
-
-  // Query incidents with matching hash or error_type
-  const { data, error } = await supabase
-    .from("incidents")
-    .select("id, created_at, error_type, service_name, root_cause_summary, ai_summary, resolution_notes, status, stack_trace_hash")
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false })
-    .limit(50);
-
-  if (error || !data) return [];
-
-  const results: SimilarIncident[] = [];
+export interface SimilarIncidentPage {
+  incidents: SimilarIncident[];
+  /** Matches across the user's whole incident history */
+  total: number;
+  page: number;
+}
 
-  for (const incident of data) {
-    let score = 0;
+export const SIMILAR_INCIDENTS_PAGE_SIZE = 5;
 
-    // Exact hash match = high similarity
-    if (stackTraceHash && incident.stack_trace_hash === stackTraceHash) {
-      score += 70;
-    }
+/** Search the user's full incident history server-side (see search_similar_incidents) */
+export async function findSimilarIncidents(query: SimilarityQuery, page = 0): Promise<SimilarIncidentPage> {
+  const { stackTraceHash, stackMinHash, errorType, serviceName, environment, embedding, embeddingModel, excludeIncidentId,
+    legacyStackTraceHash } = query;
 
-    // Error type match
-    if (errorType && incident.error_type === errorType) {
-      score += 20;
-    }
+  const { data, error } = await supabase.rpc("search_similar_incidents", {
+    _stack_trace_hash: stackTraceHash,
+    _stack_minhash: stackMinHash,
+    _error_type: errorType,
+    _service_name: serviceName,
+    _environment: environment ?? undefined,
+    _embedding: embedding ? toVectorLiteral(embedding) : undefined,
+    _embedding_model: embeddingModel ?? undefined,
+    _limit: SIMILAR_INCIDENTS_PAGE_SIZE,
+    _offset: page * SIMILAR_INCIDENTS_PAGE_SIZE,
+    _exclude_id: excludeIncidentId ?? undefined,
+    _legacy_stack_trace_hash: legacyStackTraceHash || undefined,
+  });
 
-    // Service name match
-    if (serviceName && incident.service_name === serviceName) {
-      score += 10;
-    }
+  if (error || !data) return { incidents: [], total: 0, page };
 
-    if (score >= 20) {
-      results.push({
-        id: incident.id,
-        created_at: incident.created_at,
-        error_type: incident.error_type,
-        service_name: incident.service_name,
-        root_cause_summary: incident.root_cause_summary,
-        ai_summary: (incident as any).ai_summary || null,
-        resolution_notes: incident.resolution_notes,
-        status: incident.status,
-        similarityScore: Math.min(score, 100),
-      });
-    }
-  }
+  return {
+    incidents: data.map((row) => ({
+      id: row.id,
+      created_at: row.created_at,
+      error_type: row.error_type,
+      service_name: row.service_name,
+      environment: row.environment,
+      root_cause_summary: row.root_cause_summary,
+      ai_summary: row.ai_summary,
+      resolution_notes: row.resolution_notes,
+      status: row.status,
+      similarityScore: row.similarity_score,
+      traceSimilarity: Number(row.trace_similarity),
+      semanticSimilarity: Number(row.semantic_similarity),
+      matchReasons: row.match_reasons || [],
+      breakdown: Array.isArray(row.breakdown) ? (row.breakdown as unknown as SimilaritySignal[]) : [],
+    })),
+    total: data.length > 0 ? Number(data[0].total_count) : 0,
+    page,
+  };
+}
 
-  return results.sort((a, b) => b.similarityScore - a.similarityScore).slice(0, 5);
+export interface IncidentComparison {
+  error_snippet: string | null;
+  stack_trace: string | null;
 }
 
-export function getOccurrenceCount(incidents: SimilarIncident[]): number {
-  return incidents.length;
+/** The stored snippet and trace of a past incident, for a side-by-side diff */
+export async function fetchIncidentComparison(incidentId: string): Promise<IncidentComparison | null> {
+  const { data, error } = await supabase
+    .from("incidents")
+    .select("error_snippet, stack_trace")
+    .eq("id", incidentId)
+    .single();
+
+  if (error || !data) return null;
+  return data;
 }
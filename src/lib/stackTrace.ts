@@ -0,0 +1,231 @@
+export type StackLanguage = "jvm" | "scala" | "python" | "go" | "node" | "dotnet";
+
+export interface StackFrame {
+  language: StackLanguage;
+  module: string | null;
+  function: string;
+  file: string | null;
+  line: number | null;
+  /** Frame belongs to a runtime or framework package rather than application code */
+  library: boolean;
+}
+
+export type StackBlockKind = "trace" | "caused_by" | "suppressed" | "goroutine";
+
+export interface StackTraceBlock {
+  language: StackLanguage;
+  kind: StackBlockKind;
+  /** Exception, panic or goroutine line heading the block */
+  header: string;
+  frames: StackFrame[];
+  /** Frames the runtime elided ("... N more") */
+  omittedFrames: number;
+  /** 1-based line range of the block in the source text */
+  startLine: number;
+  endLine: number;
+}
+
+const JVM_FRAME = /^\s*at\s+(?:[\w.-]+\/)?([\w$.]+)\.([\w$<>-]+)\(([^()]*)\)\s*(?:~?\[.*\])?\s*$/;
+const JVM_LOCATION = /^([\w$.-]+\.(?:java|scala|kt|groovy|clj))(?::(\d+))?$|^(?:Native Method|Unknown Source)$/;
+const DOTNET_FRAME = /^\s*at\s+([\w.`<>+[\],]+)\.([\w<>`]+)\(([^)]*)\)(?:\s+in\s+(.+?):line\s+(\d+))?\s*$/;
+const NODE_FRAME = /^\s*at\s+(?:(?:async\s+)?(.+?)\s+\()?((?:file:\/\/|node:|\/|[A-Za-z]:\\|\.)[^()]*?|[\w.-]+\.[cm]?[jt]sx?):(\d+):(\d+)\)?\s*$/;
+const NODE_NATIVE_FRAME = /^\s*at\s+(?:async\s+)?(?:new\s+)?(.+?)\s+\((?:index \d+|<anonymous>|native)\)\s*$/;
+const PYTHON_FRAME = /^\s*File "([^"]+)", line (\d+)(?:, in (.+))?\s*$/;
+const GO_FUNC = /^(?:created by )?([\w.\-/]+?(?:\.\(\*?\w+\))?)\.([\w.]+)(?:\(.*\))?(?: in goroutine \d+)?\s*$/;
+const GO_LOCATION = /^\s+(\S+?\.go):(\d+)(?:\s+\+0x[0-9a-f]+)?\s*$/;
+
+const OMITTED = /^\s*\.\.\.\s*(\d+)\s+(?:more|common frames omitted)/;
+const CHAINED = /^\s*(Caused by|Suppressed):\s*(.*)$/;
+const PY_TRACEBACK = /Traceback \(most recent call last\):/;
+const GO_PANIC = /^(?:panic|fatal error): /;
+const GO_ROUTINE = /^goroutine \d+ \[[^\]]*\]:\s*$/;
+
+const LIBRARY_MODULES: Record<StackLanguage, RegExp> = {
+  jvm: /^(?:java|javax|jdk|sun|com\.sun|kotlin|org\.apache\.(?:spark|hadoop|kafka|flink)|io\.netty|org\.springframework|akka)\./,
+  scala: /^(?:scala|akka|org\.apache\.(?:spark|flink|kafka))\./,
+  python: /site-packages|dist-packages|\/lib\/python\d|<frozen/,
+  go: /^(?:runtime|internal|sync|net\/http|reflect|testing)(?:[./]|$)|\/usr\/local\/go\/|\/go\/pkg\/mod\//,
+  node: /^node:|node_modules|^internal\//,
+  dotnet: /^(?:System|Microsoft)\./,
+};
+
+function isLibrary(language: StackLanguage, module: string | null, file: string | null): boolean {
+  const pattern = LIBRARY_MODULES[language];
+  return (!!module && pattern.test(module)) || (!!file && pattern.test(file));
+}
+
+function frame(language: StackLanguage, module: string | null, fn: string, file: string | null, line: number | null): StackFrame {
+  return { language, module, function: fn, file, line, library: isLibrary(language, module, file) };
+}
+
+/** Parse a single `at ...` line into a JVM, Scala, .NET or Node frame */
+function parseAtFrame(line: string): StackFrame | null {
+  const dotnet = line.match(DOTNET_FRAME);
+  if (dotnet && dotnet[4]) {
+    return frame("dotnet", dotnet[1], dotnet[2], dotnet[4], Number(dotnet[5]));
+  }
+
+  const jvm = line.match(JVM_FRAME);
+  if (jvm) {
+    const location = jvm[3].match(JVM_LOCATION);
+    if (location) {
+      const file = location[1] || null;
+      const language = file?.endsWith(".scala") || jvm[1].includes("$anonfun") ? "scala" : "jvm";
+      return frame(language, jvm[1], jvm[2], file, location[2] ? Number(location[2]) : null);
+    }
+  }
+
+  const node = line.match(NODE_FRAME);
+  if (node) {
+    const file = node[2];
+    const fn = node[1] || "<anonymous>";
+    const dot = fn.lastIndexOf(".");
+    return frame("node", dot > 0 ? fn.slice(0, dot) : null, dot > 0 ? fn.slice(dot + 1) : fn, file, Number(node[3]));
+  }
+
+  const native = line.match(NODE_NATIVE_FRAME);
+  if (native) {
+    const dot = native[1].lastIndexOf(".");
+    return frame("node", dot > 0 ? native[1].slice(0, dot) : null, dot > 0 ? native[1].slice(dot + 1) : native[1], null, null);
+  }
+
+  // .NET frames without symbols have no "in file:line" suffix
+  if (dotnet) return frame("dotnet", dotnet[1], dotnet[2], null, null);
+  return null;
+}
+
+function pythonModule(file: string): string {
+  const base = file.split(/[\\/]/).pop() || file;
+  return base.replace(/\.py$/, "");
+}
+
+/**
+ * Split a log into stack trace blocks and parse every frame. Handles JVM
+ * (including `Caused by:`, `Suppressed:` and `... N more`), Scala, Python
+ * tracebacks, Go panics and goroutine dumps, Node.js and .NET traces.
+ */
+export function parseStackTraces(log: string): StackTraceBlock[] {
+  const lines = log.split("\n");
+  const blocks: StackTraceBlock[] = [];
+  let current: StackTraceBlock | null = null;
+  let lastText = "";
+  let lastTextLine = 0;
+  // Structured logs indent an embedded traceback as a whole, exception line included
+  let tracebackIndent = 0;
+
+  const open = (language: StackLanguage, kind: StackBlockKind, header: string, startLine: number) => {
+    close();
+    current = { language, kind, header, frames: [], omittedFrames: 0, startLine, endLine: startLine };
+  };
+  const close = () => {
+    if (current && (current.frames.length > 0 || current.omittedFrames > 0)) blocks.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNo = i + 1;
+    const block = current as StackTraceBlock | null;
+
+    if (PY_TRACEBACK.test(line)) {
+      open("python", "trace", "", lineNo);
+      tracebackIndent = line.search(/\S/);
+      continue;
+    }
+    const chained = line.match(CHAINED);
+    if (chained) {
+      // Provisional: the block takes the language of its own first frame
+      const language = block && block.language !== "python" && block.language !== "go" ? block.language : "jvm";
+      open(language, chained[1] === "Caused by" ? "caused_by" : "suppressed", chained[2].trim(), lineNo);
+      continue;
+    }
+    if (GO_PANIC.test(line)) {
+      open("go", "trace", line.trim(), lineNo);
+      continue;
+    }
+    if (GO_ROUTINE.test(line)) {
+      // The first goroutine after a panic belongs to the panic block
+      if (block?.language === "go" && block.frames.length === 0) continue;
+      open("go", "goroutine", line.trim(), lineNo);
+      continue;
+    }
+
+    const omitted = line.match(OMITTED);
+    if (omitted && block) {
+      block.omittedFrames += Number(omitted[1]);
+      block.endLine = lineNo;
+      continue;
+    }
+
+    if (block?.language === "go") {
+      const fn = line.match(GO_FUNC);
+      const location = lines[i + 1]?.match(GO_LOCATION);
+      if (fn && location) {
+        block.frames.push(frame("go", fn[1], fn[2], location[1], Number(location[2])));
+        block.endLine = lineNo + 1;
+        i++;
+        continue;
+      }
+    }
+
+    const py = line.match(PYTHON_FRAME);
+    if (py) {
+      if (block?.language !== "python") {
+        open("python", "trace", "", lineNo);
+        tracebackIndent = 0;
+      }
+      const target = current as StackTraceBlock;
+      target.frames.push(frame("python", pythonModule(py[1]), py[3]?.trim() || "<module>", py[1], Number(py[2])));
+      target.endLine = lineNo;
+      // Skip the echoed source line (and caret markers) that follows each frame
+      while (i + 1 < lines.length && /^\s{4,}\S/.test(lines[i + 1]) && !PYTHON_FRAME.test(lines[i + 1])) i++;
+      continue;
+    }
+
+    const at = parseAtFrame(line);
+    if (at) {
+      if (!block || block.language === "python" || block.language === "go") {
+        open(at.language, "trace", lastText, lastTextLine || lineNo);
+      }
+      const target = current as StackTraceBlock;
+      if (target.frames.length === 0) target.language = at.language;
+      target.frames.push(at);
+      target.endLine = lineNo;
+      continue;
+    }
+
+    // A Python traceback ends with the exception line itself
+    if (block?.language === "python" && !block.header && block.frames.length > 0 && line.trim()
+      && line.search(/\S/) <= tracebackIndent) {
+      block.header = line.trim();
+      block.endLine = lineNo;
+      close();
+      continue;
+    }
+    if (block?.language === "go" && !line.trim()) continue;
+
+    if (block && block.frames.length > 0) close();
+    if (line.trim()) {
+      lastText = line.trim();
+      lastTextLine = lineNo;
+    }
+  }
+  close();
+
+  return blocks;
+}
+
+/** Normalised frame identity: ignores line numbers and compiler-generated suffixes */
+export function frameSignature(f: StackFrame): string {
+  const fn = f.function
+    .replace(/\$\d+/g, "$N")
+    .replace(/lambda\$[\w$]*?\$?\d+/g, "lambda$N")
+    .replace(/func\d+/g, "funcN");
+  return `${f.module ? `${f.module}.` : ""}${fn}`;
+}
+
+/** Render the raw text of each block's line range, for display and legacy consumers */
+export function blocksToText(log: string, blocks: StackTraceBlock[]): string {
+  const lines = log.split("\n");
+  return blocks.map((b) => lines.slice(b.startLine - 1, b.endLine).join("\n")).join("\n");
+}
@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { BuiltInErrorType, ErrorType, TaxonomyEntry } from "@/lib/logParser";
+
+export type TaxonomyRule = Tables<"taxonomy_rules">;
+
+export type TaxonomyColor =
+  | "red" | "orange" | "yellow" | "purple" | "blue" | "rose" | "green" | "teal" | "slate";
+
+export const TAXONOMY_COLORS: Record<TaxonomyColor, string> = {
+  red: "bg-destructive/15 text-destructive border-destructive/30",
+  orange: "bg-orange-500/15 text-orange-600 border-orange-500/30 dark:text-orange-400",
+  yellow: "bg-yellow-500/15 text-yellow-700 border-yellow-500/30 dark:text-yellow-400",
+  purple: "bg-purple-500/15 text-purple-700 border-purple-500/30 dark:text-purple-400",
+  blue: "bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-400",
+  rose: "bg-rose-500/15 text-rose-700 border-rose-500/30 dark:text-rose-400",
+  green: "bg-green-500/15 text-green-700 border-green-500/30 dark:text-green-400",
+  teal: "bg-teal-500/15 text-teal-700 border-teal-500/30 dark:text-teal-400",
+  slate: "bg-muted text-muted-foreground border-border",
+};
+
+const BUILT_IN_COLORS: Record<BuiltInErrorType, TaxonomyColor> = {
+  OutOfMemoryError: "red",
+  NullPointerException: "orange",
+  TimeoutException: "yellow",
+  PermissionDenied: "purple",
+  SchemaMismatch: "blue",
+  NetworkError: "rose",
+  UnknownError: "slate",
+};
+
+/** Compile a single pattern, returning null instead of throwing on invalid regex */
+export function compilePattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source, "i");
+  } catch {
+    return null;
+  }
+}
+
+/** Convert enabled rules into parser taxonomy entries, dropping patterns that don't compile */
+export function toTaxonomyEntries(rules: TaxonomyRule[]): TaxonomyEntry[] {
+  return rules
+    .filter((r) => r.enabled)
+    .map((r) => ({
+      type: r.name,
+      priority: r.priority,
+      patterns: r.patterns.map(compilePattern).filter((p): p is RegExp => p !== null),
+    }))
+    .filter((e) => e.patterns.length > 0);
+}
+
+/** Badge classes for an error type, honouring the colour a custom rule was given */
+export function errorTypeColor(type: ErrorType | null, rules: TaxonomyRule[] = []): string {
+  if (!type) return TAXONOMY_COLORS.slate;
+  const rule = rules.find((r) => r.name === type);
+  const color = (rule?.color as TaxonomyColor) || BUILT_IN_COLORS[type as BuiltInErrorType] || "slate";
+  return TAXONOMY_COLORS[color] || TAXONOMY_COLORS.slate;
+}
+
+export async function fetchTaxonomyRules(userId: string): Promise<TaxonomyRule[]> {
+  const { data, error } = await supabase
+    .from("taxonomy_rules")
+    .select("*")
+    .eq("user_id", userId)
+    .order("priority", { ascending: false });
+
+  if (error || !data) return [];
+  return data;
+}
@@ -0,0 +1,67 @@
+export type DiffRowType = "same" | "changed" | "removed" | "added";
+
+/** One row of a side-by-side diff; a missing side is null */
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+/** Lines compared per side; LCS is quadratic, and longer traces rarely differ past this point */
+const MAX_DIFF_LINES = 300;
+
+/** Line numbers, addresses and timestamps differ between occurrences of the same failure */
+function normalizeLine(line: string): string {
+  return line
+    .trim()
+    .replace(/0x[0-9a-f]+/gi, "0x")
+    .replace(/\d+/g, "N");
+}
+
+/**
+ * Side-by-side line diff based on the longest common subsequence of
+ * normalised lines. Adjacent removals and additions are paired into
+ * "changed" rows so the two sides stay aligned.
+ */
+export function diffLines(left: string, right: string): DiffRow[] {
+  const a = left ? left.split("\n").slice(0, MAX_DIFF_LINES) : [];
+  const b = right ? right.split("\n").slice(0, MAX_DIFF_LINES) : [];
+  const na = a.map(normalizeLine);
+  const nb = b.map(normalizeLine);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const l = removed[k] ?? null;
+      const r = added[k] ?? null;
+      rows.push({ type: l !== null && r !== null ? "changed" : l !== null ? "removed" : "added", left: l, right: r });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && na[i] === nb[j]) {
+      flush();
+      rows.push({ type: "same", left: a[i++], right: b[j++] });
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
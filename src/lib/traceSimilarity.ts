@@ -0,0 +1,53 @@
+import { frameSignature, StackFrame } from "@/lib/stackTrace";
+import { fmix32, fnv1a } from "@/lib/hashing";
+
+/** Number of hash functions in a MinHash signature; estimate error is about 1/sqrt(n) */
+export const MINHASH_SIZE = 64;
+
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Frame shingles: every normalised frame plus every pair of adjacent frames.
+ * Single frames keep short traces comparable; pairs make order matter, so an
+ * inserted or renamed frame only disturbs the shingles next to it.
+ */
+export function frameShingles(frames: StackFrame[]): Set<string> {
+  const signatures = frames.map(frameSignature);
+  const shingles = new Set<string>(signatures);
+  for (let i = 1; i < signatures.length; i++) shingles.add(`${signatures[i - 1]} > ${signatures[i]}`);
+  return shingles;
+}
+
+/** Exact Jaccard similarity of two sets, 0 when both are empty */
+export function jaccard<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * MinHash signature of a trace's frame shingles. Values are signed 32-bit
+ * integers so they fit a Postgres INTEGER[] column. Empty for traces with no frames.
+ */
+export function minHashFrames(frames: StackFrame[]): number[] {
+  const shingles = frameShingles(frames);
+  if (shingles.size === 0) return [];
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const h = fmix32(base ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+  return signature.map((h) => h | 0);
+}
+
+/** Estimated Jaccard similarity (0-1) of two MinHash signatures */
+export function minHashSimilarity(a: number[] | null | undefined, b: number[] | null | undefined): number {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) equal++;
+  return equal / a.length;
+}
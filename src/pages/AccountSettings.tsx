@@ -8,6 +8,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
+import { TaxonomyRulesEditor } from "@/components/settings/TaxonomyRulesEditor";
+import { RedactionPolicyEditor } from "@/components/settings/RedactionPolicyEditor";
+import { LogStorageSettingsCard } from "@/components/settings/LogStorageSettingsCard";
+import { LLMProviderSettingsCard } from "@/components/settings/LLMProviderSettingsCard";
 
 export default function AccountSettings() {
   const { user, signOut } = useAuth();
@@ -125,6 +129,18 @@ export default function AccountSettings() {
         </CardContent>
       </Card>
 
+      {/* Custom error taxonomy */}
+      <TaxonomyRulesEditor />
+
+      {/* PII and secret redaction */}
+      <RedactionPolicyEditor />
+
+      {/* Raw log storage and retention */}
+      <LogStorageSettingsCard />
+
+      {/* LLM provider for analysis */}
+      <LLMProviderSettingsCard />
+
       {/* Sign out */}
       <Card className="border-destructive/30">
         <CardHeader>
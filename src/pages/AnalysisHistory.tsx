@@ -7,6 +7,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { errorTypeColor } from "@/lib/taxonomyRules";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface LogAnalysis {
@@ -19,15 +21,6 @@ interface LogAnalysis {
   created_at: string;
 }
 
-const ERROR_COLORS: Record<string, string> = {
-  OutOfMemoryError: "bg-destructive/15 text-destructive border-destructive/30",
-  NullPointerException: "bg-orange-500/15 text-orange-600 border-orange-500/30 dark:text-orange-400",
-  TimeoutException: "bg-yellow-500/15 text-yellow-700 border-yellow-500/30 dark:text-yellow-400",
-  PermissionDenied: "bg-purple-500/15 text-purple-700 border-purple-500/30 dark:text-purple-400",
-  SchemaMismatch: "bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-400",
-  UnknownError: "bg-muted text-muted-foreground border-border",
-};
-
 function formatDate(dateStr: string) {
   return new Intl.DateTimeFormat("en-US", {
     month: "short",
@@ -44,6 +37,7 @@ export default function AnalysisHistory() {
   const [expanded, setExpanded] = useState<string | null>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { rules: taxonomyRules } = useTaxonomyRules();
 
   useEffect(() => {
     fetchAnalyses();
@@ -128,7 +122,7 @@ export default function AnalysisHistory() {
                   {analysis.detected_error_type && (
                     <Badge
                       className={cn("border text-xs font-semibold hidden sm:inline-flex",
-                        ERROR_COLORS[analysis.detected_error_type] || "bg-muted text-muted-foreground"
+                        errorTypeColor(analysis.detected_error_type, taxonomyRules)
                       )}
                       variant="outline"
                     >
@@ -156,7 +150,7 @@ export default function AnalysisHistory() {
                   {analysis.detected_error_type && (
                     <Badge
                       className={cn("border text-xs font-semibold sm:hidden",
-                        ERROR_COLORS[analysis.detected_error_type] || "bg-muted text-muted-foreground"
+                        errorTypeColor(analysis.detected_error_type, taxonomyRules)
                       )}
                       variant="outline"
                     >
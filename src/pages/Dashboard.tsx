@@ -1,13 +1,39 @@
-import { useState, useRef, useCallback } from "react";
-import { Upload, FileText, X, Loader2, CheckCircle2 } from "lucide-react";
+import { useState, useRef, useCallback, useMemo, useDeferredValue } from "react";
+import { Upload, FileText, X, Loader2, CheckCircle2, History, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
-import { parseLog, cleanLLMOutput, hashStackTrace, ErrorType } from "@/lib/logParser";
-import { findSimilarIncidents, SimilarIncident } from "@/lib/similarityEngine";
+import { parseLog, hashStackTrace, hashStackFrames, legacyStackTraceHash, ErrorType, DetectedError } from "@/lib/logParser";
+import type { StackTraceBlock } from "@/lib/stackTrace";
+import type { ExceptionLink } from "@/lib/exceptionChain";
+import { fetchProblem, incidentFingerprint, Problem } from "@/lib/problems";
+import { provenanceColumns, Provenance } from "@/lib/provenance";
+import {
+  analysisFromKnownResolution, findKnownResolution, KnownResolution, knownResolutionForPrompt,
+} from "@/lib/knownResolutions";
+import { findSimilarIncidents, SimilarIncidentPage, SimilarityQuery } from "@/lib/similarityEngine";
+import { AnalysisError, analysisRequestBody, streamAnalysis } from "@/lib/analysisStream";
+import { Analysis, AnalyzeResponse, InjectedLesson } from "@/lib/analysisSchema";
+import { minHashFrames } from "@/lib/traceSimilarity";
+import { calibrateConfidence, CalibratedConfidence } from "@/lib/confidence";
+import {
+  backfillIncidentEmbeddings, embedTexts, failureEmbeddingText, incidentEmbeddingText, toVectorLiteral,
+} from "@/lib/embeddings";
+import type { LogFormat } from "@/lib/logFormats";
+import { errorTypeColor, toTaxonomyEntries } from "@/lib/taxonomyRules";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
+import { redact } from "@/lib/redaction";
+import { useRedactionPolicy } from "@/hooks/use-redaction-policy";
+import { redactedLogForStorage, storeEncryptedOriginal } from "@/lib/logStorage";
+import { useLogStorageSettings } from "@/hooks/use-log-storage-settings";
+import { DEFAULT_TOKEN_BUDGET, TOKEN_BUDGET_OPTIONS } from "@/lib/contextAssembly";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { DashboardStats } from "@/components/dashboard/DashboardStats";
@@ -16,30 +42,75 @@ import { SimilarIncidentsPanel } from "@/components/dashboard/SimilarIncidentsPa
 import { SectionFeedback } from "@/components/dashboard/SectionFeedback";
 import { RecurringBanner } from "@/components/dashboard/RecurringBanner";
 import { AISummaryCard } from "@/components/dashboard/AISummaryCard";
+import { StackTracePanel } from "@/components/dashboard/StackTracePanel";
+import { ExceptionChainCard } from "@/components/dashboard/ExceptionChainCard";
+import { RedactionReportCard } from "@/components/dashboard/RedactionReportCard";
+import { KnownResolutionCard } from "@/components/dashboard/KnownResolutionCard";
+import { ConfidenceBadge } from "@/components/dashboard/ConfidenceBadge";
+import { ProvenanceCard } from "@/components/dashboard/ProvenanceCard";
 
 interface AnalysisResult {
   incidentId: string | null;
   detectedErrorType: ErrorType;
+  detectedErrors: DetectedError[];
+  logFormat: LogFormat;
+  errorSnippet: string;
+  stackTrace: string;
+  stackTraces: StackTraceBlock[];
+  exceptionChain: ExceptionLink[];
   affectedService: string;
   aiSummary: string;
   rootCauseSummary: string;
   recommendedFixSteps: string[];
   longTermPrevention: string;
   impactScope: string;
-  similarIncidents: SimilarIncident[];
-  recurringCount: number;
+  similarityQuery: SimilarityQuery;
+  similarIncidents: SimilarIncidentPage;
+  problem: Problem | null;
+  knownResolution: KnownResolution | null;
+  reusedKnownFix: boolean;
+  confidence: CalibratedConfidence | null;
+  /** Set when the analysis came from the response cache */
+  cachedAt: string | null;
+  /** Null when no AI call was made */
+  provenance: Provenance | null;
+  /** Feedback lessons injected into the prompt, with why each matched; null from older deployments */
+  lessons: InjectedLesson[] | null;
 }
 
-const ERROR_TYPE_COLORS: Record<ErrorType, string> = {
-  OutOfMemoryError: "bg-destructive/15 text-destructive border-destructive/30",
-  NullPointerException: "bg-orange-500/15 text-orange-600 border-orange-500/30 dark:text-orange-400",
-  TimeoutException: "bg-yellow-500/15 text-yellow-700 border-yellow-500/30 dark:text-yellow-400",
-  PermissionDenied: "bg-purple-500/15 text-purple-700 border-purple-500/30 dark:text-purple-400",
-  SchemaMismatch: "bg-blue-500/15 text-blue-700 border-blue-500/30 dark:text-blue-400",
-  NetworkError: "bg-rose-500/15 text-rose-700 border-rose-500/30 dark:text-rose-400",
-  UnknownError: "bg-muted text-muted-foreground border-border",
+const ANALYSIS_ERROR_TITLES: Record<AnalysisError["code"], string> = {
+  rate_limited: "Rate limit reached",
+  usage_limited: "Usage limit reached",
+  invalid_output: "AI returned an incomplete analysis",
+  provider_error: "Analysis failed",
 };
 
+function analysisErrorDescription(err: AnalysisError): string {
+  if (err.issues.length === 0) return err.message;
+  return `Invalid after repair: ${err.issues.map((i) => `${i.field.replace(/_/g, " ")} ${i.message}`).join("; ")}`;
+}
+
+function formatCachedAt(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }).format(new Date(dateStr));
+}
+
+type AISections = Pick<
+  AnalysisResult,
+  "affectedService" | "aiSummary" | "rootCauseSummary" | "recommendedFixSteps" | "longTermPrevention" | "impactScope"
+>;
+
+/** Result fields from the AI reply, which may still be partial while it streams */
+function aiSections(data: Partial<Analysis>, serviceName: string | null): AISections {
+  return {
+    affectedService: data.affected_service || serviceName || "Unknown",
+    aiSummary: data.ai_summary || "",
+    rootCauseSummary: data.root_cause_summary || "",
+    recommendedFixSteps: data.recommended_fix_steps || [],
+    longTermPrevention: data.long_term_prevention || "",
+    impactScope: data.impact_scope || "",
+  };
+}
+
 export default function Dashboard() {
   const [logText, setLogText] = useState("");
   const [fileName, setFileName] = useState<string | null>(null);
@@ -47,9 +118,21 @@ export default function Dashboard() {
   const [analyzing, setAnalyzing] = useState(false);
   const [statusMsg, setStatusMsg] = useState("");
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [tokenBudget, setTokenBudget] = useState(DEFAULT_TOKEN_BUDGET);
+  const [reuseKnownFixes, setReuseKnownFixes] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { user } = useAuth();
   const { toast } = useToast();
+  const { rules: taxonomyRules } = useTaxonomyRules();
+  const { policy: redactionPolicy } = useRedactionPolicy();
+  const { settings: storageSettings } = useLogStorageSettings();
+
+  // Preview what will be masked before anything leaves the browser
+  const deferredLog = useDeferredValue(logText);
+  const redactionPreview = useMemo(
+    () => (deferredLog.trim() ? redact(deferredLog, redactionPolicy).report : []),
+    [deferredLog, redactionPolicy],
+  );
 
   const handleFile = (file: File) => {
     if (!file.name.endsWith(".txt") && !file.name.endsWith(".log")) {
@@ -76,7 +159,8 @@ export default function Dashboard() {
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const analyzeLog = async () => {
+  /** reanalyze skips the response cache, for when a cached analysis looks wrong or stale */
+  const analyzeLog = async (reanalyze = false) => {
     if (!logText.trim()) {
       toast({ title: "Please provide a log to analyze", variant: "destructive" });
       return;
@@ -86,98 +170,197 @@ export default function Dashboard() {
 
     try {
       setStatusMsg("Preprocessing & extracting structure...");
-      const parsed = parseLog(logText);
-      const stackHash = hashStackTrace(parsed.stackTrace);
+      const parsed = parseLog(logText, { customTaxonomy: toTaxonomyEntries(taxonomyRules), redactionPolicy });
+      const frames = parsed.stackTraces.flatMap((b) => b.frames);
+      const stackHash = hashStackFrames(frames) || hashStackTrace(parsed.stackTrace);
+      // Incidents saved before frame hashing only match on the old text hash
+      const legacyStackHash = legacyStackTraceHash(logText);
+      const stackMinHash = minHashFrames(frames);
 
-      setStatusMsg("Checking incident memory...");
-      const similarIncidents = await findSimilarIncidents({
-        userId: user!.id,
+      // A resolved incident with the same fingerprint carries the fix that actually worked
+      setStatusMsg("Checking known resolutions...");
+      const knownResolution = await findKnownResolution({
         stackTraceHash: stackHash,
+        legacyStackTraceHash: legacyStackHash,
+        stackMinHash,
         errorType: parsed.detectedErrorType,
         serviceName: parsed.serviceName,
       });
+      const reusedKnownFix = !!knownResolution && reuseKnownFixes;
 
-      // Check recurring incidents in last 7 days
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-      const { count: recurringCount } = await supabase
-        .from("incidents")
-        .select("id", { count: "exact", head: true })
-        .eq("user_id", user!.id)
-        .eq("error_type", parsed.detectedErrorType)
-        .gte("created_at", sevenDaysAgo.toISOString());
-
-      setStatusMsg("AI reasoning engine analyzing...");
-      const { data, error } = await supabase.functions.invoke("analyze", {
-        body: {
-          detectedErrorType: parsed.detectedErrorType,
-          errorSnippet: parsed.errorSnippet,
-          logSummary: parsed.logSummary,
-          serviceName: parsed.serviceName,
-          environment: parsed.environment,
-          requestId: parsed.requestId,
-          userId: user!.id,
-        },
+      // Parsed structure shows right away; AI sections fill in as the reply streams
+      const similarityQuery: SimilarityQuery = {
+        stackTraceHash: stackHash,
+        legacyStackTraceHash: legacyStackHash,
+        stackMinHash,
+        errorType: parsed.detectedErrorType,
+        serviceName: parsed.serviceName,
+        environment: parsed.environment,
+        embedding: null,
+        embeddingModel: null,
+      };
+      setResult({
+        incidentId: null,
+        detectedErrorType: parsed.detectedErrorType,
+        detectedErrors: parsed.detectedErrors,
+        logFormat: parsed.logFormat,
+        errorSnippet: parsed.errorSnippet,
+        stackTrace: parsed.stackTrace,
+        stackTraces: parsed.stackTraces,
+        exceptionChain: parsed.exceptionChain,
+        ...aiSections({}, parsed.serviceName),
+        similarityQuery,
+        similarIncidents: { incidents: [], total: 0, page: 0 },
+        problem: null,
+        knownResolution,
+        reusedKnownFix,
+        confidence: null,
+        cachedAt: null,
+        provenance: null,
+        lessons: null,
+      });
+
+      let data: AnalyzeResponse;
+      if (reusedKnownFix) {
+        data = analysisFromKnownResolution(knownResolution, parsed.detectedErrorType);
+      } else {
+        // Feedback lessons are matched on the failure itself; there is no summary to embed yet
+        const { model: failureModel, vectors: [failureVector] } = await embedTexts([failureEmbeddingText(parsed)]);
+        setStatusMsg("AI reasoning engine analyzing...");
+        data = await streamAnalysis({
+          ...analysisRequestBody(parsed, tokenBudget),
+          stackTraceHash: stackHash,
+          legacyStackTraceHash: legacyStackHash,
+          stackMinHash,
+          embedding: toVectorLiteral(failureVector),
+          embeddingModel: failureModel,
+          knownResolution: knownResolution ? knownResolutionForPrompt(knownResolution) : null,
+          cleanedLog: parsed.cleanedLog,
+          fingerprint: incidentFingerprint(stackHash, parsed.detectedErrorType, parsed.serviceName),
+          reanalyze,
+        }, (partial) => setResult((prev) => prev && { ...prev, ...aiSections(partial, parsed.serviceName) }));
+      }
+
+      // A cache hit is the same failure uploaded again: reuse the incident from the first analysis
+      let savedIncident: { id: string; problem_id: string | null } | null = null;
+      if (data.cache?.hit) {
+        const { data: existing } = await supabase
+          .from("incidents")
+          .select("id, problem_id")
+          .eq("user_id", user!.id)
+          .eq("analysis_cache_key", data.cache.key)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        savedIncident = existing;
+      }
+
+      // Similar incidents match on the trace structure and on what the AI says went wrong;
+      // a reused incident is left out so it doesn't agree with itself
+      setStatusMsg("Checking incident memory...");
+      const { model: embeddingModel, vectors: [embedding] } = await embedTexts([incidentEmbeddingText(data)]);
+      const similarIncidents = await findSimilarIncidents({
+        ...similarityQuery, embedding, embeddingModel, excludeIncidentId: savedIncident?.id ?? null,
       });
+      const confidence = calibrateConfidence({
+        analysis: data,
+        detectedErrorType: parsed.detectedErrorType,
+        detectedErrors: parsed.detectedErrors,
+        hasStackTrace: parsed.stackTraces.length > 0 || !!parsed.stackTrace,
+        hasExceptionChain: parsed.exceptionChain.length > 1,
+        similarIncidents: similarIncidents.incidents,
+      });
+
+      if (!savedIncident) {
+        // Save to log_analyses; only the redacted log is stored in plain text
+        setStatusMsg("Saving analysis...");
+        const storedLog = redactedLogForStorage(logText, redactionPolicy);
+        const { data: savedAnalysis } = await supabase.from("log_analyses").insert({
+          user_id: user!.id,
+          file_name: fileName,
+          raw_log: storedLog,
+          detected_error_type: parsed.detectedErrorType,
+          root_cause_summary: data.root_cause_summary,
+          suggested_fix: JSON.stringify(data.recommended_fix_steps),
+          business_impact: data.impact_scope,
+          ...provenanceColumns(data.provenance),
+        }).select("id").single();
 
-      if (error) throw new Error(error.message);
-      if (data?.error) {
-        if (data.status === 429 || data.status === 402) {
-          toast({ title: data.status === 429 ? "Rate limit reached" : "Usage limit reached", description: data.error, variant: "destructive" });
-          return;
+        // Save as incident with AI summary
+        const { data: inserted } = await supabase.from("incidents").insert({
+          user_id: user!.id,
+          environment: parsed.environment,
+          error_type: parsed.detectedErrorType,
+          detected_errors: parsed.detectedErrors,
+          service_name: parsed.serviceName,
+          stack_trace_hash: stackHash,
+          legacy_stack_trace_hash: legacyStackHash || null,
+          stack_trace: parsed.stackTrace || null,
+          error_snippet: parsed.errorSnippet,
+          stack_minhash: stackMinHash.length > 0 ? stackMinHash : null,
+          embedding: toVectorLiteral(embedding),
+          embedding_model: embeddingModel,
+          root_cause_summary: data.root_cause_summary,
+          recommended_fix_steps: JSON.stringify(data.recommended_fix_steps),
+          long_term_prevention: data.long_term_prevention,
+          impact_scope: data.impact_scope,
+          affected_service: data.affected_service,
+          ai_summary: data.ai_summary || "",
+          confidence_score: confidence.score,
+          confidence_reasoning: confidence.reasoning,
+          cleaned_log: parsed.cleanedLog,
+          evidence: data.evidence,
+          status: "Open",
+          raw_log: storedLog,
+          file_name: fileName,
+          log_analysis_id: savedAnalysis?.id || null,
+          analysis_cache_key: data.cache?.key ?? null,
+          ...provenanceColumns(data.provenance),
+        } as any).select("id, problem_id").single();
+        savedIncident = inserted;
+
+        if (storageSettings.keep_encrypted_original && (savedAnalysis || savedIncident)) {
+          const { error: encryptError } = await storeEncryptedOriginal(savedAnalysis?.id || null, savedIncident?.id || null, logText);
+          if (encryptError) toast({ title: "Failed to store encrypted original", description: encryptError.message, variant: "destructive" });
         }
-        throw new Error(data.error);
       }
 
-      // Save to log_analyses
-      setStatusMsg("Saving analysis...");
-      const { data: savedAnalysis } = await supabase.from("log_analyses").insert({
-        user_id: user!.id,
-        file_name: fileName,
-        raw_log: logText.substring(0, 50000),
-        detected_error_type: parsed.detectedErrorType,
-        root_cause_summary: data.root_cause_summary,
-        suggested_fix: JSON.stringify(data.recommended_fix_steps),
-        business_impact: data.impact_scope,
-      }).select("id").single();
-
-      // Save as incident with AI summary
-      const { data: savedIncident } = await supabase.from("incidents").insert({
-        user_id: user!.id,
-        environment: parsed.environment,
-        error_type: parsed.detectedErrorType,
-        service_name: parsed.serviceName,
-        stack_trace_hash: stackHash,
-        root_cause_summary: data.root_cause_summary,
-        recommended_fix_steps: JSON.stringify(data.recommended_fix_steps),
-        long_term_prevention: data.long_term_prevention,
-        impact_scope: data.impact_scope,
-        affected_service: data.affected_service,
-        ai_summary: data.ai_summary || "",
-        status: "Open",
-        raw_log: logText.substring(0, 50000),
-        file_name: fileName,
-        log_analysis_id: savedAnalysis?.id || null,
-      } as any).select("id").single();
+      // The insert trigger grouped the incident into a problem by fingerprint
+      const problem = savedIncident?.problem_id ? await fetchProblem(savedIncident.problem_id) : null;
+
+      // Bring older incidents into the semantic index a batch at a time
+      backfillIncidentEmbeddings(user!.id);
 
       const analysis: AnalysisResult = {
         incidentId: savedIncident?.id || null,
         detectedErrorType: parsed.detectedErrorType,
-        affectedService: data.affected_service || parsed.serviceName || "Unknown",
-        aiSummary: cleanLLMOutput(data.ai_summary || ""),
-        rootCauseSummary: cleanLLMOutput(data.root_cause_summary),
-        recommendedFixSteps: Array.isArray(data.recommended_fix_steps)
-          ? data.recommended_fix_steps.map((s: string) => cleanLLMOutput(s))
-          : [],
-        longTermPrevention: cleanLLMOutput(data.long_term_prevention || ""),
-        impactScope: cleanLLMOutput(data.impact_scope || ""),
+        detectedErrors: parsed.detectedErrors,
+        logFormat: parsed.logFormat,
+        errorSnippet: parsed.errorSnippet,
+        stackTrace: parsed.stackTrace,
+        stackTraces: parsed.stackTraces,
+        exceptionChain: parsed.exceptionChain,
+        ...aiSections(data, parsed.serviceName),
+        // Later pages are fetched after the save, when the new incident would match itself
+        similarityQuery: { ...similarityQuery, embedding, embeddingModel, excludeIncidentId: savedIncident?.id ?? null },
         similarIncidents,
-        recurringCount: recurringCount || 0,
+        problem,
+        knownResolution,
+        reusedKnownFix,
+        confidence,
+        cachedAt: data.cache?.hit ? data.cache.cachedAt : null,
+        provenance: data.provenance ?? null,
+        lessons: data.lessons ?? null,
       };
 
       setResult(analysis);
-      toast({ title: "Analysis complete!" });
+      toast({ title: data.cache?.hit ? "Served from cache" : "Analysis complete!" });
     } catch (err: any) {
+      setResult(null);
+      if (err instanceof AnalysisError) {
+        toast({ title: ANALYSIS_ERROR_TITLES[err.code], description: analysisErrorDescription(err), variant: "destructive" });
+        return;
+      }
       toast({ title: "Analysis failed", description: err.message || "An unexpected error occurred.", variant: "destructive" });
     } finally {
       setAnalyzing(false);
@@ -250,15 +433,31 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {logText.trim() && !result && <RedactionReportCard report={redactionPreview} />}
+
       {/* Actions */}
       <div className="flex items-center gap-3">
-        <Button onClick={analyzeLog} disabled={analyzing || !logText.trim()} size="lg" className="gap-2">
+        <Button onClick={() => analyzeLog()} disabled={analyzing || !logText.trim()} size="lg" className="gap-2">
           {analyzing ? (
             <><Loader2 className="h-4 w-4 animate-spin" />{statusMsg || "Analyzing..."}</>
           ) : (
             <><CheckCircle2 className="h-4 w-4" />Analyze Log</>
           )}
         </Button>
+        <Select value={String(tokenBudget)} onValueChange={(v) => setTokenBudget(Number(v))}>
+          <SelectTrigger className="h-11 w-44" title="Token budget for the log context sent to the AI">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOKEN_BUDGET_OPTIONS.map((budget) => (
+              <SelectItem key={budget} value={String(budget)}>{budget / 1000}k token context</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2" title="When a resolved incident with the same fingerprint has resolution notes, reuse it instead of calling the AI">
+          <Switch id="reuse-known-fixes" checked={reuseKnownFixes} onCheckedChange={setReuseKnownFixes} />
+          <Label htmlFor="reuse-known-fixes" className="text-sm text-muted-foreground">Skip AI for known fixes</Label>
+        </div>
         {logText && (
           <Button variant="outline" size="lg" onClick={clearLog} className="gap-2">
             <X className="h-4 w-4" /> Clear
@@ -271,9 +470,30 @@ export default function Dashboard() {
         <div className="space-y-4 animate-in fade-in-0 slide-in-from-bottom-4 duration-500">
           <div className="flex items-center gap-3 flex-wrap">
             <h2 className="text-xl font-bold text-foreground">Analysis Results</h2>
-            <Badge className={cn("border text-xs font-semibold", ERROR_TYPE_COLORS[result.detectedErrorType])} variant="outline">
+            <Badge className={cn("border text-xs font-semibold", errorTypeColor(result.detectedErrorType, taxonomyRules))} variant="outline">
               {result.detectedErrorType}
             </Badge>
+            {result.detectedErrors.filter((e) => e.role === "contributing").map((e) => (
+              <Badge key={e.type} variant="outline" className={cn("border text-xs opacity-70", errorTypeColor(e.type, taxonomyRules))}
+                title={`Contributing: ${e.matchCount} match(es) on line(s) ${e.lines.slice(0, 5).join(", ")}${e.lines.length > 5 ? "…" : ""}`}>
+                + {e.type} ×{e.matchCount}
+              </Badge>
+            ))}
+            {result.confidence && <ConfidenceBadge score={result.confidence.score} reasoning={result.confidence.reasoning} />}
+            {result.cachedAt && (
+              <>
+                <Badge variant="outline" className="text-xs text-muted-foreground"
+                  title="The same log was analyzed before with this prompt and model; no AI call was made">
+                  <History className="h-3 w-3 mr-1" /> Cached from {formatCachedAt(result.cachedAt)}
+                </Badge>
+                <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" disabled={analyzing} onClick={() => analyzeLog(true)}>
+                  <RefreshCw className="h-3 w-3" /> Re-analyze anyway
+                </Button>
+              </>
+            )}
+            {result.logFormat !== "plain" && (
+              <Badge variant="outline" className="text-xs text-muted-foreground">{result.logFormat} format</Badge>
+            )}
             <ExportButton result={{
               detectedErrorType: result.detectedErrorType,
               rootCauseSummary: result.rootCauseSummary,
@@ -283,33 +503,53 @@ export default function Dashboard() {
             }} />
           </div>
 
+          {/* Fix that worked for the same failure before, ahead of the AI output */}
+          <KnownResolutionCard resolution={result.knownResolution} reused={result.reusedKnownFix} />
+
           {/* Recurring incident warning */}
-          <RecurringBanner count={result.recurringCount} errorType={result.detectedErrorType} />
+          <RecurringBanner problem={result.problem} />
 
           {/* AI Summary */}
           <AISummaryCard summary={result.aiSummary} />
 
+          {/* Exception chain down to the root cause */}
+          <ExceptionChainCard chain={result.exceptionChain} />
+
+          {/* Parsed stack trace */}
+          <StackTracePanel blocks={result.stackTraces} />
+
           {/* Similar incidents */}
-          {result.similarIncidents.length > 0 && (
-            <SimilarIncidentsPanel incidents={result.similarIncidents} />
+          {result.similarIncidents.total > 0 && (
+            <SimilarIncidentsPanel query={result.similarityQuery} initialPage={result.similarIncidents}
+              current={{ error_snippet: result.errorSnippet, stack_trace: result.stackTrace }} />
           )}
 
           <div className="grid gap-4 md:grid-cols-2">
-            <ResultCardWithFeedback icon="🔍" title="Root Cause Explanation" content={result.rootCauseSummary} accent="border-l-4 border-l-destructive" incidentId={result.incidentId} sectionName="root_cause" />
-            <ResultCardWithFeedback icon="🔧" title="Suggested Fix" content={result.recommendedFixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n")} accent="border-l-4 border-l-primary" incidentId={result.incidentId} sectionName="suggested_fix" />
-            <ResultCardWithFeedback icon="🛡️" title="Preventive Recommendation" content={result.longTermPrevention} accent="border-l-4 border-l-green-500" incidentId={result.incidentId} sectionName="prevention" />
-            <ResultCardWithFeedback icon="📊" title="Business Impact" content={result.impactScope} accent="border-l-4 border-l-orange-500" incidentId={result.incidentId} sectionName="business_impact" />
+            <ResultCardWithFeedback icon="🔍" title="Root Cause Explanation" content={result.rootCauseSummary} accent="border-l-4 border-l-destructive" incidentId={result.incidentId} sectionName="root_cause" pending={analyzing} />
+            <ResultCardWithFeedback icon="🔧" title="Suggested Fix" content={result.recommendedFixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n")} accent="border-l-4 border-l-primary" incidentId={result.incidentId} sectionName="suggested_fix" pending={analyzing} />
+            <ResultCardWithFeedback icon="🛡️" title="Preventive Recommendation" content={result.longTermPrevention} accent="border-l-4 border-l-green-500" incidentId={result.incidentId} sectionName="prevention" pending={analyzing} />
+            <ResultCardWithFeedback icon="📊" title="Business Impact" content={result.impactScope} accent="border-l-4 border-l-orange-500" incidentId={result.incidentId} sectionName="business_impact" pending={analyzing} />
           </div>
+
+          {/* Which prompt, model and feedback lessons produced this analysis */}
+          {result.provenance && (
+            <ProvenanceCard promptVersion={result.provenance.promptVersion} provider={result.provenance.provider}
+              model={result.provenance.model} temperature={result.provenance.temperature}
+              promptTokens={result.provenance.promptTokens} completionTokens={result.provenance.completionTokens}
+              feedbackLessonIds={result.provenance.feedbackLessonIds} lessons={result.lessons ?? undefined} />
+          )}
         </div>
       )}
     </div>
   );
 }
 
-function ResultCardWithFeedback({ icon, title, content, accent, incidentId, sectionName }: {
+function ResultCardWithFeedback({ icon, title, content, accent, incidentId, sectionName, pending }: {
   icon: string; title: string; content: string; accent?: string; incidentId: string | null; sectionName: string;
+  /** Still streaming: show a placeholder until this section arrives */
+  pending?: boolean;
 }) {
-  if (!content) return null;
+  if (!content && !pending) return null;
   return (
     <Card className={cn("shadow-sm", accent)}>
       <CardHeader className="pb-2">
@@ -318,7 +558,14 @@ function ResultCardWithFeedback({ icon, title, content, accent, incidentId, sect
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{content}</p>
+        {content ? (
+          <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{content}</p>
+        ) : (
+          <div className="space-y-2">
+            <Skeleton className="h-3 w-full" />
+            <Skeleton className="h-3 w-2/3" />
+          </div>
+        )}
         {incidentId && <SectionFeedback incidentId={incidentId} sectionName={sectionName} />}
       </CardContent>
     </Card>
@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { FlaskConical, Loader2, Play, Trash2, Upload } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { LLM_PROVIDERS } from "@/lib/llmSettings";
+import {
+  CaseOutcome, compareRuns, EvaluationRun, formatMetric, GoldenDataset, parseGoldenDataset,
+} from "@/lib/evaluation";
+import { deleteEvaluationRun, fetchEvaluationOutcomes, fetchEvaluationRuns, runEvaluation } from "@/lib/evaluationRunner";
+import { SAMPLE_GOLDEN_DATASET } from "@/lib/evaluationSample";
+import { RunComparisonCard } from "@/components/evaluation/RunComparisonCard";
+import { RunOutcomesCard } from "@/components/evaluation/RunOutcomesCard";
+
+const DEFAULT_PROVIDER = "default";
+
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit",
+  }).format(new Date(dateStr));
+}
+
+export default function Evaluation() {
+  const [dataset, setDataset] = useState<GoldenDataset | null>(null);
+  const [datasetErrors, setDatasetErrors] = useState<string[]>([]);
+  const [runName, setRunName] = useState("");
+  const [provider, setProvider] = useState(DEFAULT_PROVIDER);
+  const [model, setModel] = useState("");
+  const [promptVersion, setPromptVersion] = useState("");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [runs, setRuns] = useState<EvaluationRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [outcomes, setOutcomes] = useState<Record<string, CaseOutcome[]>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    setRuns(await fetchEvaluationRuns(user!.id));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => { loadRuns(); }, [loadRuns]);
+
+  const loadDataset = (text: string) => {
+    const result = parseGoldenDataset(text);
+    if (result.ok === false) {
+      setDataset(null);
+      setDatasetErrors(result.errors);
+      return;
+    }
+    setDataset(result.dataset);
+    setDatasetErrors([]);
+  };
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => loadDataset(e.target?.result as string);
+    reader.readAsText(file);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const startRun = async () => {
+    if (!dataset) return;
+    setProgress({ done: 0, total: dataset.cases.length });
+    const { run, outcomes: caseOutcomes, error } = await runEvaluation(user!.id, dataset, {
+      name: runName.trim() || `${dataset.name} ${new Date().toISOString().slice(0, 16).replace("T", " ")}`,
+      llm: {
+        provider: provider === DEFAULT_PROVIDER ? null : provider,
+        model: provider === DEFAULT_PROVIDER ? null : model.trim() || null,
+      },
+      promptVersion: promptVersion.trim() || null,
+      onProgress: (done, total) => setProgress({ done, total }),
+    });
+    setProgress(null);
+
+    if (error) toast({ title: "Failed to save the evaluation run", description: error, variant: "destructive" });
+    if (!run) return;
+    toast({ title: `Evaluated ${run.summary.caseCount} cases`, description: `${run.summary.failedCount} failed` });
+    setOutcomes((prev) => ({ ...prev, [run.id]: caseOutcomes }));
+    setSelected([run.id]);
+    loadRuns();
+  };
+
+  const removeRun = async (id: string) => {
+    const { error } = await deleteEvaluationRun(id);
+    if (error) {
+      toast({ title: "Failed to delete run", description: error.message, variant: "destructive" });
+      return;
+    }
+    setSelected((prev) => prev.filter((s) => s !== id));
+    loadRuns();
+  };
+
+  // At most two runs: one shows its cases, two are compared
+  const toggleSelected = async (id: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, id].slice(-2) : prev.filter((s) => s !== id)));
+    if (checked && !outcomes[id]) {
+      const rows = await fetchEvaluationOutcomes(id);
+      setOutcomes((prev) => ({ ...prev, [id]: rows }));
+    }
+  };
+
+  const selectedRuns = runs.filter((r) => selected.includes(r.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const [baseline, candidate] = selectedRuns;
+  const selectedProvider = LLM_PROVIDERS.find((p) => p.id === provider);
+
+  return (
+    <div className="mx-auto max-w-6xl p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <FlaskConical className="h-6 w-6 text-primary" /> Evaluation
+        </h1>
+        <p className="text-muted-foreground">
+          Score the parser and the AI analysis against a labelled golden dataset, and compare runs across prompt and model changes.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Golden Dataset</CardTitle>
+          <CardDescription>
+            A JSON file with a <code>name</code> and <code>cases</code>, each with an <code>id</code>, the <code>log</code>,
+            its <code>expectedErrorType</code> and <code>expectedRootCauseKeywords</code> ("a|b" accepts either).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" /> Upload dataset
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".json" className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+            <Button variant="ghost" size="sm" onClick={() => loadDataset(JSON.stringify(SAMPLE_GOLDEN_DATASET))}>
+              Use sample dataset
+            </Button>
+            {dataset && (
+              <Badge variant="outline" className="text-xs">{dataset.name}: {dataset.cases.length} cases</Badge>
+            )}
+          </div>
+          {datasetErrors.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-destructive">
+              {datasetErrors.slice(0, 10).map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="run-name">Run name</Label>
+              <Input id="run-name" value={runName} onChange={(e) => setRunName(e.target.value)} placeholder="Dataset and time" />
+            </div>
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select value={provider} onValueChange={setProvider}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_PROVIDER}>Deployment default</SelectItem>
+                  {LLM_PROVIDERS.map((p) => <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eval-model">Model</Label>
+              <Input id="eval-model" value={model} onChange={(e) => setModel(e.target.value)}
+                placeholder={selectedProvider ? selectedProvider.modelHint : "Provider default"} disabled={provider === DEFAULT_PROVIDER} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eval-prompt">Prompt version</Label>
+              <Input id="eval-prompt" value={promptVersion} onChange={(e) => setPromptVersion(e.target.value)} placeholder="Current" />
+            </div>
+          </div>
+
+          <Button className="gap-2" onClick={startRun} disabled={!dataset || !!progress}>
+            {progress ? (
+              <><Loader2 className="h-4 w-4 animate-spin" />Case {Math.min(progress.done + 1, progress.total)} of {progress.total}...</>
+            ) : (
+              <><Play className="h-4 w-4" />Run evaluation</>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="space-y-2">{[1,2,3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}</div>
+      ) : runs.length === 0 ? (
+        <Card className="py-16">
+          <CardContent className="flex flex-col items-center gap-4 text-center">
+            <FlaskConical className="h-12 w-12 text-muted-foreground" />
+            <p className="font-semibold text-foreground">No evaluation runs yet</p>
+            <p className="text-sm text-muted-foreground">Load a golden dataset and run it to get a baseline.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"></TableHead>
+                <TableHead>Run</TableHead>
+                <TableHead>Prompt / Model</TableHead>
+                <TableHead className="text-right">Cases</TableHead>
+                <TableHead className="text-right">Parser</TableHead>
+                <TableHead className="text-right">Model</TableHead>
+                <TableHead className="text-right">Root Cause</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="w-10"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((r) => (
+                <TableRow key={r.id}>
+                  <TableCell>
+                    <Checkbox checked={selected.includes(r.id)} onCheckedChange={(checked) => toggleSelected(r.id, checked === true)}
+                      aria-label={`Select ${r.name}`} />
+                  </TableCell>
+                  <TableCell className="max-w-[220px]">
+                    <p className="truncate text-sm font-medium text-foreground">{r.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">{r.datasetName}</p>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <Badge variant="outline" className="text-xs font-mono">{r.promptVersion ?? "—"}</Badge>
+                    <p className="mt-1 font-mono text-muted-foreground">{r.provider ?? "default"}/{r.model ?? "default"}</p>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {r.summary.caseCount}
+                    {r.summary.failedCount > 0 && <span className="block text-xs text-destructive">{r.summary.failedCount} failed</span>}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{formatMetric("parserAccuracy", r.summary.parserAccuracy)}</TableCell>
+                  <TableCell className="text-right text-sm">{formatMetric("modelAccuracy", r.summary.modelAccuracy)}</TableCell>
+                  <TableCell className="text-right text-sm" title="Keyword recall; match rate below">
+                    {formatMetric("rootCauseScore", r.summary.rootCauseScore)}
+                    <span className="block text-xs text-muted-foreground">{formatMetric("rootCauseMatchRate", r.summary.rootCauseMatchRate)} matched</span>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(r.createdAt)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeRun(r.id)} aria-label={`Delete ${r.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      {/* Older selected run is the baseline */}
+      {baseline && candidate && outcomes[baseline.id] && outcomes[candidate.id] && (
+        <RunComparisonCard baseline={baseline} candidate={candidate}
+          comparison={compareRuns(
+            { run: baseline, outcomes: outcomes[baseline.id] },
+            { run: candidate, outcomes: outcomes[candidate.id] },
+          )} />
+      )}
+      {baseline && !candidate && outcomes[baseline.id] && (
+        <RunOutcomesCard run={baseline} outcomes={outcomes[baseline.id]} />
+      )}
+    </div>
+  );
+}
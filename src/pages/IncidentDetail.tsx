@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, Clock, Save } from "lucide-react";
+import { useParams, useNavigate, Link } from "react-router-dom";
+import { ArrowLeft, Clock, KeyRound, Save } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -13,6 +13,11 @@ import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { SectionFeedback } from "@/components/dashboard/SectionFeedback";
 import { AISummaryCard } from "@/components/dashboard/AISummaryCard";
+import { ConfidenceBadge } from "@/components/dashboard/ConfidenceBadge";
+import { EvidenceLinks, LogViewer } from "@/components/dashboard/LogViewer";
+import { ProvenanceCard } from "@/components/dashboard/ProvenanceCard";
+import { citedEvidence, LineRange } from "@/lib/evidence";
+import { fetchEncryptedOriginal } from "@/lib/logStorage";
 
 interface IncidentFull {
   id: string;
@@ -29,6 +34,20 @@ interface IncidentFull {
   ai_summary: string | null;
   status: string;
   file_name: string | null;
+  problem_id: string | null;
+  confidence_score: number | null;
+  confidence_reasoning: string | null;
+  cleaned_log: string | null;
+  evidence: unknown;
+  prompt_version: string | null;
+  llm_provider: string | null;
+  llm_model: string | null;
+  llm_temperature: number | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  feedback_lesson_ids: string[];
+  /** Set when the user keeps encrypted originals, see storeEncryptedOriginal */
+  raw_log_encrypted: string | null;
 }
 
 function formatDate(dateStr: string) {
@@ -47,6 +66,9 @@ export default function IncidentDetail() {
   const [resolutionNotes, setResolutionNotes] = useState("");
   const [status, setStatus] = useState("Open");
   const [saving, setSaving] = useState(false);
+  const [highlight, setHighlight] = useState<LineRange[]>([]);
+  const [original, setOriginal] = useState<string | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
 
   useEffect(() => {
     if (id) fetchIncident();
@@ -85,6 +107,17 @@ export default function IncidentDetail() {
     setSaving(false);
   };
 
+  const viewOriginal = async () => {
+    setDecrypting(true);
+    const { data, error } = await fetchEncryptedOriginal(id!);
+    if (error || !data) {
+      toast({ title: "Failed to decrypt the original log", variant: "destructive" });
+    } else {
+      setOriginal(data);
+    }
+    setDecrypting(false);
+  };
+
   if (loading) return (
     <div className="mx-auto max-w-4xl p-6 space-y-4">
       <Skeleton className="h-8 w-48" />
@@ -101,6 +134,7 @@ export default function IncidentDetail() {
 
   let fixSteps: string[] = [];
   try { fixSteps = JSON.parse(incident.recommended_fix_steps || "[]"); } catch { fixSteps = [incident.recommended_fix_steps || ""]; }
+  const evidence = citedEvidence(incident.evidence, incident.cleaned_log ? incident.cleaned_log.split("\n").length : 0);
 
   return (
     <div className="mx-auto max-w-4xl p-6 space-y-6">
@@ -119,6 +153,7 @@ export default function IncidentDetail() {
         )}>
           {incident.status}
         </Badge>
+        <ConfidenceBadge score={incident.confidence_score} reasoning={incident.confidence_reasoning} />
       </div>
 
       <div className="flex items-center gap-4 text-xs text-muted-foreground">
@@ -126,18 +161,72 @@ export default function IncidentDetail() {
         {incident.environment && <span>Env: {incident.environment}</span>}
         {(incident.service_name || incident.affected_service) && <span>Service: {incident.service_name || incident.affected_service}</span>}
         {incident.file_name && <span>File: {incident.file_name}</span>}
+        {incident.problem_id && (
+          <Link to={`/problems/${incident.problem_id}`} className="text-primary underline-offset-4 hover:underline">View problem →</Link>
+        )}
       </div>
 
       {/* AI Summary */}
       <AISummaryCard summary={incident.ai_summary || ""} />
 
       <div className="grid gap-4 md:grid-cols-2">
-        <DetailCardWithFeedback icon="🔍" title="Root Cause Explanation" content={incident.root_cause_summary || "—"} accent="border-l-4 border-l-destructive" incidentId={incident.id} sectionName="root_cause" />
-        <DetailCardWithFeedback icon="🔧" title="Suggested Fix" content={fixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n")} accent="border-l-4 border-l-primary" incidentId={incident.id} sectionName="suggested_fix" />
+        <DetailCardWithFeedback icon="🔍" title="Root Cause Explanation" content={incident.root_cause_summary || "—"} accent="border-l-4 border-l-destructive" incidentId={incident.id} sectionName="root_cause">
+          {evidence.root_cause.length > 0 && (
+            <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
+              <span className="cursor-pointer hover:text-foreground" onClick={() => setHighlight(evidence.root_cause)}>{incident.root_cause_summary}</span>
+              <EvidenceLinks ranges={evidence.root_cause} onSelect={setHighlight} />
+            </p>
+          )}
+        </DetailCardWithFeedback>
+        <DetailCardWithFeedback icon="🔧" title="Suggested Fix" content={fixSteps.map((s, i) => `${i + 1}. ${s}`).join("\n")} accent="border-l-4 border-l-primary" incidentId={incident.id} sectionName="suggested_fix">
+          {evidence.fix_steps.some((ranges) => ranges.length > 0) && (
+            <ol className="space-y-1 text-sm text-muted-foreground leading-relaxed">
+              {fixSteps.map((step, i) => {
+                const ranges = evidence.fix_steps[i] ?? [];
+                return (
+                  <li key={i}>
+                    <span className={cn(ranges.length > 0 && "cursor-pointer hover:text-foreground")}
+                      onClick={ranges.length > 0 ? () => setHighlight(ranges) : undefined}>{i + 1}. {step}</span>
+                    <EvidenceLinks ranges={ranges} onSelect={setHighlight} />
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </DetailCardWithFeedback>
         <DetailCardWithFeedback icon="🛡️" title="Preventive Recommendation" content={incident.long_term_prevention || "—"} accent="border-l-4 border-l-green-500" incidentId={incident.id} sectionName="prevention" />
         <DetailCardWithFeedback icon="📊" title="Business Impact" content={incident.impact_scope || "—"} accent="border-l-4 border-l-orange-500" incidentId={incident.id} sectionName="business_impact" />
       </div>
 
+      {/* The log the analysis cited, with the selected claim's lines highlighted */}
+      {incident.cleaned_log && <LogViewer log={incident.cleaned_log} highlight={highlight} />}
+
+      {/* The unredacted upload, decrypted on request only */}
+      {incident.raw_log_encrypted && (
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <KeyRound className="h-4 w-4 text-primary" /> Original Log
+              <span className="text-xs font-normal text-muted-foreground">Unredacted, stored encrypted</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {original !== null ? (
+              <pre className="max-h-96 overflow-auto rounded-md border border-border bg-muted/30 p-3 font-mono text-xs whitespace-pre-wrap">{original}</pre>
+            ) : (
+              <Button variant="outline" size="sm" onClick={viewOriginal} disabled={decrypting} className="gap-2">
+                <KeyRound className="h-4 w-4" />{decrypting ? "Decrypting..." : "View original"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Which prompt, model and feedback lessons produced this analysis */}
+      <ProvenanceCard promptVersion={incident.prompt_version} provider={incident.llm_provider} model={incident.llm_model}
+        temperature={incident.llm_temperature} promptTokens={incident.prompt_tokens} completionTokens={incident.completion_tokens}
+        feedbackLessonIds={incident.feedback_lesson_ids} />
+
       {/* Resolution section */}
       <Card>
         <CardHeader className="pb-2">
@@ -166,8 +255,10 @@ export default function IncidentDetail() {
   );
 }
 
-function DetailCardWithFeedback({ icon, title, content, accent, incidentId, sectionName }: {
+function DetailCardWithFeedback({ icon, title, content, accent, incidentId, sectionName, children }: {
   icon: string; title: string; content: string; accent?: string; incidentId: string; sectionName: string;
+  /** Replaces the plain content, e.g. with evidence citations */
+  children?: React.ReactNode;
 }) {
   return (
     <Card className={cn("shadow-sm", accent)}>
@@ -177,7 +268,7 @@ function DetailCardWithFeedback({ icon, title, content, accent, incidentId, sect
         </CardTitle>
       </CardHeader>
       <CardContent>
-        <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{content}</p>
+        {children || <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">{content}</p>}
         <SectionFeedback incidentId={incidentId} sectionName={sectionName} />
       </CardContent>
     </Card>
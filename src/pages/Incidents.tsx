@@ -11,6 +11,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
+import { errorTypeColor } from "@/lib/taxonomyRules";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
+import { confidenceLevel } from "@/lib/confidence";
+import { ConfidenceBadge } from "@/components/dashboard/ConfidenceBadge";
 
 interface Incident {
   id: string;
@@ -22,6 +26,8 @@ interface Incident {
   service_name: string | null;
   affected_service: string | null;
   environment: string | null;
+  confidence_score: number | null;
+  confidence_reasoning: string | null;
 }
 
 function formatDate(dateStr: string) {
@@ -36,9 +42,11 @@ export default function Incidents() {
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [errorTypeFilter, setErrorTypeFilter] = useState<string>("all");
+  const [confidenceFilter, setConfidenceFilter] = useState<string>("all");
   const [searchQuery, setSearchQuery] = useState("");
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { rules: taxonomyRules } = useTaxonomyRules();
 
   useEffect(() => { fetchIncidents(); }, []);
 
@@ -46,7 +54,7 @@ export default function Incidents() {
     setLoading(true);
     const { data } = await supabase
       .from("incidents")
-      .select("id, created_at, error_type, status, root_cause_summary, ai_summary, service_name, affected_service, environment")
+      .select("id, created_at, error_type, status, root_cause_summary, ai_summary, service_name, affected_service, environment, confidence_score, confidence_reasoning")
       .eq("user_id", user!.id)
       .order("created_at", { ascending: false })
       .limit(200);
@@ -77,6 +85,9 @@ export default function Incidents() {
   const filtered = incidents.filter((inc) => {
     if (statusFilter !== "all" && inc.status !== statusFilter) return false;
     if (errorTypeFilter !== "all" && inc.error_type !== errorTypeFilter) return false;
+    if (confidenceFilter === "unscored" && inc.confidence_score !== null) return false;
+    if (confidenceFilter !== "all" && confidenceFilter !== "unscored" &&
+      (inc.confidence_score === null || confidenceLevel(inc.confidence_score) !== confidenceFilter)) return false;
     if (searchQuery) {
       const q = searchQuery.toLowerCase();
       const searchable = `${inc.service_name || ""} ${inc.root_cause_summary || ""} ${inc.error_type || ""} ${inc.ai_summary || ""}`.toLowerCase();
@@ -118,6 +129,16 @@ export default function Incidents() {
                 {errorTypes.map((t) => <SelectItem key={t} value={t}>{t}</SelectItem>)}
               </SelectContent>
             </Select>
+            <Select value={confidenceFilter} onValueChange={setConfidenceFilter}>
+              <SelectTrigger className="w-[190px] h-9"><SelectValue placeholder="Confidence" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Confidence</SelectItem>
+                <SelectItem value="low">Low (needs review)</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="unscored">Not scored</SelectItem>
+              </SelectContent>
+            </Select>
             <Button variant="outline" size="sm" onClick={fetchIncidents}>Refresh</Button>
           </div>
         </CardContent>
@@ -141,6 +162,7 @@ export default function Incidents() {
                 <TableHead>Date</TableHead>
                 <TableHead>Error Type</TableHead>
                 <TableHead>AI Summary</TableHead>
+                <TableHead>Confidence</TableHead>
                 <TableHead>Feedback</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead></TableHead>
@@ -151,11 +173,18 @@ export default function Incidents() {
                 <TableRow key={inc.id} className="cursor-pointer" onClick={() => navigate(`/incidents/${inc.id}`)}>
                   <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(inc.created_at)}</TableCell>
                   <TableCell>
-                    <Badge variant="outline" className="text-xs">{inc.error_type || "Unknown"}</Badge>
+                    <Badge variant="outline" className={cn("text-xs", errorTypeColor(inc.error_type, taxonomyRules))}>{inc.error_type || "Unknown"}</Badge>
                   </TableCell>
                   <TableCell className="text-xs text-muted-foreground max-w-[300px] truncate">
                     {inc.ai_summary || inc.root_cause_summary?.substring(0, 80) || "—"}
                   </TableCell>
+                  <TableCell>
+                    {inc.confidence_score !== null ? (
+                      <ConfidenceBadge score={inc.confidence_score} reasoning={inc.confidence_reasoning} className="whitespace-nowrap" />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {feedbackMap[inc.id] ? (
                       <span className={cn("text-xs font-medium",
@@ -0,0 +1,228 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, Clock, Save, Split } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  fetchProblem, Problem, problemStatusClass, PROBLEM_STATUSES, splitProblem, updateProblem,
+} from "@/lib/problems";
+
+interface ProblemIncident {
+  id: string;
+  created_at: string;
+  environment: string | null;
+  service_name: string | null;
+  affected_service: string | null;
+  ai_summary: string | null;
+  root_cause_summary: string | null;
+  status: string;
+}
+
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit",
+  }).format(new Date(dateStr));
+}
+
+export default function ProblemDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [problem, setProblem] = useState<Problem | null>(null);
+  const [incidents, setIncidents] = useState<ProblemIncident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [title, setTitle] = useState("");
+  const [status, setStatus] = useState("Open");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [splitting, setSplitting] = useState(false);
+
+  const loadProblem = useCallback(async () => {
+    setLoading(true);
+    const [found, { data }] = await Promise.all([
+      fetchProblem(id!),
+      supabase
+        .from("incidents")
+        .select("id, created_at, environment, service_name, affected_service, ai_summary, root_cause_summary, status")
+        .eq("problem_id", id!)
+        .order("created_at", { ascending: false }),
+    ]);
+
+    setProblem(found);
+    if (found) {
+      setTitle(found.title);
+      setStatus(found.status);
+      setNotes(found.notes || "");
+    }
+    setIncidents(data || []);
+    setSelected([]);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    if (id) loadProblem();
+  }, [id, loadProblem]);
+
+  const saveChanges = async () => {
+    setSaving(true);
+    const { error } = await updateProblem(id!, { title: title.trim() || problem!.title, status, notes });
+
+    if (error) {
+      toast({ title: "Failed to save", variant: "destructive" });
+    } else {
+      toast({ title: "Problem updated" });
+      setProblem((prev) => prev ? { ...prev, title: title.trim() || prev.title, status, notes } : prev);
+    }
+    setSaving(false);
+  };
+
+  const splitSelected = async () => {
+    setSplitting(true);
+    const { data: newId, error } = await splitProblem(id!, selected);
+    setSplitting(false);
+
+    if (error || !newId) {
+      toast({ title: "Failed to split problem", description: error?.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: `Moved ${selected.length} incident${selected.length !== 1 ? "s" : ""} to a new problem` });
+    navigate(`/problems/${newId}`);
+  };
+
+  const toggleSelected = (incidentId: string, checked: boolean) => {
+    setSelected((prev) => checked ? [...prev, incidentId] : prev.filter((s) => s !== incidentId));
+  };
+
+  if (loading) return (
+    <div className="mx-auto max-w-5xl p-6 space-y-4">
+      <Skeleton className="h-8 w-48" />
+      <Skeleton className="h-64 w-full" />
+    </div>
+  );
+
+  if (!problem) return (
+    <div className="mx-auto max-w-5xl p-6">
+      <p className="text-muted-foreground">Problem not found.</p>
+      <Button variant="outline" onClick={() => navigate("/problems")} className="mt-4">← Back</Button>
+    </div>
+  );
+
+  // A split must leave at least one incident behind
+  const canSplit = selected.length > 0 && selected.length < incidents.length;
+
+  return (
+    <div className="mx-auto max-w-5xl p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="sm" onClick={() => navigate("/problems")}>
+          <ArrowLeft className="h-4 w-4 mr-1" /> Back
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-3 flex-wrap">
+        <h1 className="text-xl font-bold text-foreground">{problem.title}</h1>
+        {problem.error_type && <Badge variant="outline" className="text-xs">{problem.error_type}</Badge>}
+        <Badge variant="outline" className={cn("text-xs", problemStatusClass(problem.status))}>{problem.status}</Badge>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        <Stat label="Occurrences" value={String(problem.occurrence_count)} />
+        <Stat label="First seen" value={formatDate(problem.first_seen)} />
+        <Stat label="Last seen" value={formatDate(problem.last_seen)} />
+        <Stat label="Affected services" value={problem.affected_services.join(", ") || "—"} />
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-semibold">Known Issue Record</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex flex-wrap gap-3">
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} className="h-9 flex-1 min-w-[220px]" />
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-[160px] h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PROBLEM_STATUSES.map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Textarea
+            placeholder="Workaround, owner, links to tickets..."
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            className="min-h-[80px] text-sm"
+          />
+          <Button onClick={saveChanges} disabled={saving} size="sm" className="gap-2">
+            <Save className="h-4 w-4" />{saving ? "Saving..." : "Save Changes"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-sm font-semibold">Incidents ({incidents.length})</CardTitle>
+          <Button variant="outline" size="sm" className="gap-2" onClick={splitSelected} disabled={!canSplit || splitting}>
+            <Split className="h-4 w-4" />{splitting ? "Splitting..." : "Split into new problem"}
+          </Button>
+        </CardHeader>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10"></TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Service</TableHead>
+              <TableHead>AI Summary</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {incidents.map((inc) => (
+              <TableRow key={inc.id} className="cursor-pointer" onClick={() => navigate(`/incidents/${inc.id}`)}>
+                <TableCell onClick={(e) => e.stopPropagation()}>
+                  <Checkbox
+                    checked={selected.includes(inc.id)}
+                    onCheckedChange={(checked) => toggleSelected(inc.id, checked === true)}
+                    aria-label="Select incident"
+                  />
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                  <span className="flex items-center gap-1"><Clock className="h-3 w-3" />{formatDate(inc.created_at)}</span>
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {inc.service_name || inc.affected_service || "—"}{inc.environment && ` · ${inc.environment}`}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-[320px] truncate">
+                  {inc.ai_summary || inc.root_cause_summary?.substring(0, 80) || "—"}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs">{inc.status}</Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="mt-1 text-sm font-semibold text-foreground break-words">{value}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Layers, Merge, Search } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { errorTypeColor } from "@/lib/taxonomyRules";
+import { useTaxonomyRules } from "@/hooks/use-taxonomy-rules";
+import { fetchProblems, mergeProblems, Problem, problemStatusClass, PROBLEM_STATUSES } from "@/lib/problems";
+
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit",
+  }).format(new Date(dateStr));
+}
+
+export default function Problems() {
+  const [problems, setProblems] = useState<Problem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState<string>("");
+  const [merging, setMerging] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { rules: taxonomyRules } = useTaxonomyRules();
+
+  const loadProblems = useCallback(async () => {
+    setLoading(true);
+    setProblems(await fetchProblems(user!.id));
+    setSelected([]);
+    setMergeTarget("");
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => { loadProblems(); }, [loadProblems]);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = checked ? [...selected, id] : selected.filter((s) => s !== id);
+    setSelected(next);
+    if (!next.includes(mergeTarget)) setMergeTarget(next[0] || "");
+  };
+
+  const mergeSelected = async () => {
+    if (!mergeTarget || selected.length < 2) return;
+    setMerging(true);
+    const { error } = await mergeProblems(mergeTarget, selected.filter((id) => id !== mergeTarget));
+    setMerging(false);
+    if (error) {
+      toast({ title: "Failed to merge problems", description: error.message, variant: "destructive" });
+      return;
+    }
+    toast({ title: `Merged ${selected.length} problems` });
+    loadProblems();
+  };
+
+  const filtered = problems.filter((p) => {
+    if (statusFilter !== "all" && p.status !== statusFilter) return false;
+    if (searchQuery) {
+      const q = searchQuery.toLowerCase();
+      const searchable = `${p.title} ${p.error_type || ""} ${p.affected_services.join(" ")} ${p.notes || ""}`.toLowerCase();
+      if (!searchable.includes(q)) return false;
+    }
+    return true;
+  });
+
+  const titleOf = (id: string) => problems.find((p) => p.id === id)?.title || id;
+
+  return (
+    <div className="mx-auto max-w-6xl p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <Layers className="h-6 w-6 text-primary" /> Problems
+        </h1>
+        <p className="text-muted-foreground">Recurring incidents grouped by fingerprint, with how often and where each one happens.</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+              <Search className="h-4 w-4 text-muted-foreground" />
+              <Input placeholder="Search problems..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="h-9" />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px] h-9"><SelectValue placeholder="Status" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                {PROBLEM_STATUSES.map((s) => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={loadProblems}>Refresh</Button>
+          </div>
+
+          {selected.length >= 2 && (
+            <div className="mt-3 flex flex-wrap items-center gap-3 border-t border-border pt-3">
+              <span className="text-sm text-muted-foreground">Merge {selected.length} problems into</span>
+              <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                <SelectTrigger className="w-[260px] h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {selected.map((id) => <SelectItem key={id} value={id}>{titleOf(id)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button size="sm" className="gap-2" onClick={mergeSelected} disabled={merging}>
+                <Merge className="h-4 w-4" />{merging ? "Merging..." : "Merge"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="space-y-2">{[1,2,3].map((i) => <Skeleton key={i} className="h-12 w-full" />)}</div>
+      ) : filtered.length === 0 ? (
+        <Card className="py-16">
+          <CardContent className="flex flex-col items-center gap-4 text-center">
+            <Layers className="h-12 w-12 text-muted-foreground" />
+            <p className="font-semibold text-foreground">No problems found</p>
+            <p className="text-sm text-muted-foreground">Incidents are grouped into problems as you analyze logs from the Dashboard.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"></TableHead>
+                <TableHead>Problem</TableHead>
+                <TableHead>Occurrences</TableHead>
+                <TableHead>First Seen</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead>Affected Services</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((p) => (
+                <TableRow key={p.id} className="cursor-pointer" onClick={() => navigate(`/problems/${p.id}`)}>
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selected.includes(p.id)}
+                      onCheckedChange={(checked) => toggleSelected(p.id, checked === true)}
+                      aria-label={`Select ${p.title}`}
+                    />
+                  </TableCell>
+                  <TableCell className="max-w-[280px]">
+                    <p className="truncate text-sm font-medium text-foreground">{p.title}</p>
+                    {p.error_type && (
+                      <Badge variant="outline" className={cn("mt-1 text-xs", errorTypeColor(p.error_type, taxonomyRules))}>{p.error_type}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm font-semibold">{p.occurrence_count}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(p.first_seen)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{formatDate(p.last_seen)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
+                    {p.affected_services.length > 0 ? p.affected_services.join(", ") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn("text-xs", problemStatusClass(p.status))}>{p.status}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { extractJSON, validateAnalysis, ValidationResult } from "@/lib/analysisSchema";
+
+const ANALYSIS = {
+  error_type: "OutOfMemoryError",
+  affected_service: "etl-aggregator",
+  ai_summary: "The aggregation stage ran out of heap.",
+  root_cause_summary: "Partitions are merged in memory without a size bound.",
+  recommended_fix_steps: ["Raise the executor heap", "Spill large partitions to disk"],
+  long_term_prevention: "Alert on heap usage above 80%.",
+  impact_scope: "Nightly ETL output is delayed.",
+  confidence: 80,
+  confidence_reasoning: "The trace ends in the merge step with a heap error.",
+  evidence: { root_cause: [{ start: 41, end: 44 }], fix_steps: [[{ start: 12, end: 12 }], []] },
+};
+
+function validate(content: string) {
+  const raw = extractJSON(content);
+  expect(raw).not.toBeNull();
+  return validateAnalysis(raw!);
+}
+
+function expectInvalid(result: ValidationResult) {
+  expect(result.ok).toBe(false);
+  return result as Extract<ValidationResult, { ok: false }>;
+}
+
+describe("extractJSON", () => {
+  it("returns null when the reply has no object", () => {
+    expect(extractJSON("I could not analyze this log.")).toBeNull();
+  });
+
+  it("skips markdown fences and prose around the object", () => {
+    const content = "Here is the analysis:\n```json\n" + JSON.stringify(ANALYSIS, null, 2) + "\n```\nLet me know if you need more.";
+    expect(extractJSON(content)).toEqual(ANALYSIS);
+  });
+
+  it("keeps the finished fields of a truncated reply", () => {
+    const full = JSON.stringify(ANALYSIS);
+    const raw = extractJSON(full.slice(0, full.indexOf('"long_term_prevention"') + 30));
+    expect(raw?.recommended_fix_steps).toEqual(ANALYSIS.recommended_fix_steps);
+    expect(raw?.impact_scope).toBeUndefined();
+  });
+});
+
+describe("validateAnalysis", () => {
+  it("accepts a well-formed analysis", () => {
+    expect(validate(JSON.stringify(ANALYSIS))).toEqual({ ok: true, analysis: ANALYSIS });
+  });
+
+  it("strips brackets wrapped around whole values", () => {
+    const result = validate(JSON.stringify({ ...ANALYSIS, ai_summary: "[The aggregation stage ran out of heap.]" }));
+    expect(result.ok && result.analysis.ai_summary).toBe(ANALYSIS.ai_summary);
+  });
+
+  it("splits fix steps given as one string and drops their numbering", () => {
+    const result = validate(JSON.stringify({ ...ANALYSIS, recommended_fix_steps: "1. Raise the executor heap\n2. Spill large partitions to disk" }));
+    expect(result.ok && result.analysis.recommended_fix_steps).toEqual(ANALYSIS.recommended_fix_steps);
+  });
+
+  it("keeps semicolons of code quoted in a fix step", () => {
+    const steps = "• Run `SET statement_timeout = 0;` then retry • Raise the pool size";
+    const result = validate(JSON.stringify({ ...ANALYSIS, recommended_fix_steps: steps }));
+    expect(result.ok && result.analysis.recommended_fix_steps).toEqual(["Run `SET statement_timeout = 0;` then retry", "Raise the pool size"]);
+  });
+
+  it("reports only the fields that are missing or invalid", () => {
+    const { impact_scope: _omitted, ...rest } = ANALYSIS;
+    const result = expectInvalid(validate(JSON.stringify({ ...rest, recommended_fix_steps: [], root_cause_summary: "  " })));
+    expect(result.issues.map((i) => i.field).sort()).toEqual(["impact_scope", "recommended_fix_steps", "root_cause_summary"]);
+    expect(result.valid.ai_summary).toBe(ANALYSIS.ai_summary);
+  });
+
+  it("flags a truncated reply's unfinished fields for repair", () => {
+    const full = JSON.stringify(ANALYSIS);
+    const result = expectInvalid(validate(full.slice(0, full.indexOf('"long_term_prevention"'))));
+    expect(result.issues.map((i) => i.field)).toEqual(["long_term_prevention", "impact_scope", "confidence", "confidence_reasoning"]);
+  });
+
+  it("reads percentages and fractions as a 0-100 confidence", () => {
+    for (const confidence of ["80%", 0.8, 80.2]) {
+      const result = validate(JSON.stringify({ ...ANALYSIS, confidence }));
+      expect(result.ok && result.analysis.confidence).toBe(80);
+    }
+    expect(expectInvalid(validate(JSON.stringify({ ...ANALYSIS, confidence: 250 }))).issues[0].field).toBe("confidence");
+  });
+
+  it("defaults missing evidence and drops malformed citations", () => {
+    const { evidence: _omitted, ...rest } = ANALYSIS;
+    const missing = validate(JSON.stringify(rest));
+    expect(missing.ok && missing.analysis.evidence).toEqual({ root_cause: [], fix_steps: [] });
+
+    const loose = validate(JSON.stringify({
+      ...ANALYSIS,
+      evidence: { root_cause: [44, [50, 47], { start: 0 }, "line 9"], fix_steps: [{ start: 12 }, [[3, 4]]] },
+    }));
+    expect(loose.ok && loose.analysis.evidence).toEqual({
+      root_cause: [{ start: 44, end: 44 }, { start: 47, end: 50 }],
+      fix_steps: [[{ start: 12, end: 12 }], [{ start: 3, end: 4 }]],
+    });
+  });
+});
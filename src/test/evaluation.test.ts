@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { parseLog } from "@/lib/logParser";
+import {
+  CaseOutcome, compareRuns, EvaluationRun, formatComparisonReport, GoldenDatasetResult, parseGoldenDataset, scoreCase,
+  summarizeRun,
+} from "@/lib/evaluation";
+import { SAMPLE_GOLDEN_DATASET } from "@/lib/evaluationSample";
+
+const OOM_CASE = SAMPLE_GOLDEN_DATASET.cases[0];
+
+function outcome(analysis: { error_type: string; root_cause_summary: string } | null, caseId = OOM_CASE.id): CaseOutcome {
+  return {
+    ...scoreCase({ ...OOM_CASE, id: caseId }, "OutOfMemoryError", analysis),
+    error: analysis ? null : "AI returned invalid fields: root_cause_summary",
+    promptTokens: analysis ? 1200 : null,
+    completionTokens: analysis ? 300 : null,
+    durationMs: 900,
+  };
+}
+
+function run(name: string, outcomes: CaseOutcome[]): { run: EvaluationRun; outcomes: CaseOutcome[] } {
+  return {
+    run: {
+      id: name, createdAt: "2026-10-19T12:00:00Z", name, datasetName: SAMPLE_GOLDEN_DATASET.name,
+      promptVersion: "rca-v1", provider: "mock", model: "mock-analyst", summary: summarizeRun(outcomes),
+    },
+    outcomes,
+  };
+}
+
+function expectInvalid(result: GoldenDatasetResult) {
+  expect(result.ok).toBe(false);
+  return result as Extract<GoldenDatasetResult, { ok: false }>;
+}
+
+describe("parseGoldenDataset", () => {
+  it("accepts the sample dataset", () => {
+    expect(parseGoldenDataset(JSON.stringify(SAMPLE_GOLDEN_DATASET))).toEqual({ ok: true, dataset: SAMPLE_GOLDEN_DATASET });
+  });
+
+  it("reports malformed cases and duplicate ids", () => {
+    expect(expectInvalid(parseGoldenDataset("{ not json")).errors[0]).toMatch(/^Not valid JSON/);
+
+    const { expectedRootCauseKeywords: _omitted, ...unlabelled } = OOM_CASE;
+    expect(expectInvalid(parseGoldenDataset(JSON.stringify({ name: "x", cases: [unlabelled] }))).errors)
+      .toEqual([expect.stringContaining("cases.0.expectedRootCauseKeywords")]);
+
+    expect(expectInvalid(parseGoldenDataset(JSON.stringify({ name: "x", cases: [OOM_CASE, OOM_CASE] }))).errors)
+      .toEqual([`Duplicate case ids: ${OOM_CASE.id}`]);
+  });
+});
+
+describe("scoreCase", () => {
+  it("labels every sample case with the type the parser detects", () => {
+    for (const goldenCase of SAMPLE_GOLDEN_DATASET.cases) {
+      expect(parseLog(goldenCase.log).detectedErrorType, goldenCase.id).toBe(goldenCase.expectedErrorType);
+    }
+  });
+
+  it("matches loosely named types and any spelling of a keyword", () => {
+    const scored = scoreCase(OOM_CASE, "OutOfMemoryError", {
+      error_type: "java.lang.OutOfMemoryError: Java heap space",
+      root_cause_summary: "The executor ran out of heap while building the hash map.",
+    });
+    expect(scored.modelCorrect).toBe(true);
+    expect(scored.matchedKeywords).toEqual(["heap|memory", "executor"]);
+    expect(scored.rootCauseScore).toBeCloseTo(2 / 3);
+  });
+
+  it("scores a failed analysis as wrong", () => {
+    const scored = scoreCase(OOM_CASE, "OutOfMemoryError", null);
+    expect(scored).toMatchObject({ parserCorrect: true, modelCorrect: false, predictedErrorType: null, rootCauseScore: 0 });
+  });
+});
+
+describe("summarizeRun", () => {
+  it("keeps failed cases in the denominators", () => {
+    const summary = summarizeRun([
+      outcome({ error_type: "OutOfMemoryError", root_cause_summary: "Executor heap exhausted in the aggregation." }),
+      outcome(null, "second"),
+    ]);
+    expect(summary).toEqual({
+      caseCount: 2, failedCount: 1, parserAccuracy: 1, modelAccuracy: 0.5,
+      rootCauseScore: 0.5, rootCauseMatchRate: 0.5, promptTokens: 1200, completionTokens: 300,
+    });
+  });
+});
+
+describe("compareRuns", () => {
+  it("lists regressions first with what moved", () => {
+    const good = { error_type: "OutOfMemoryError", root_cause_summary: "Executor heap exhausted in the aggregation." };
+    const vague = { error_type: "OutOfMemoryError", root_cause_summary: "The job ran out of memory." };
+    const baseline = run("baseline", [outcome(good, "a"), outcome(null, "b"), outcome(good, "c")]);
+    const candidate = run("candidate", [outcome(vague, "a"), outcome(good, "b"), outcome(good, "c"), outcome(good, "d")]);
+
+    const comparison = compareRuns(baseline, candidate);
+    expect(comparison.cases.map((c) => [c.caseId, c.kind])).toEqual([["a", "regressed"], ["b", "improved"], ["d", "added"], ["c", "unchanged"]]);
+    expect(comparison.cases[0].details).toEqual(["root cause keywords 3 → 1 of 3"]);
+    expect(comparison.metrics.find((m) => m.key === "failedCount")?.delta).toBe(-1);
+
+    const report = formatComparisonReport(baseline.run, candidate.run, comparison);
+    expect(report).toContain("| Model classification accuracy | 66.7% | 100.0% | +33.3 pts |");
+    expect(report).toContain("## Cases (3 of 4 changed)");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { formatFeedbackLessons, LessonCandidate, lessonWeight, MAX_LESSONS, rankFeedbackLessons } from "@/lib/feedbackLessons";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+function candidate(id: string, overrides: Partial<LessonCandidate> = {}): LessonCandidate {
+  return {
+    id,
+    incidentId: `incident-${id}`,
+    sectionName: "root_cause",
+    comment: "The bucket policy denies the role, not the IAM policy",
+    createdAt: "2026-10-12T12:00:00Z",
+    similarity: 70,
+    matchReasons: ["Identical stack trace"],
+    confirmations: 0,
+    ...overrides,
+  };
+}
+
+describe("rankFeedbackLessons", () => {
+  it("merges corrections repeating each other into the most similar one", () => {
+    const lessons = rankFeedbackLessons([
+      candidate("older", { similarity: 50, createdAt: "2026-10-18T12:00:00Z", confirmations: 1 }),
+      candidate("best", { similarity: 90, comment: "The bucket policy denies the role, not the IAM policy." }),
+      candidate("other-section", { sectionName: "suggested_fix" }),
+    ], NOW);
+
+    expect(lessons.map((l) => l.id)).toEqual(["best", "other-section"]);
+    // One repetition plus its own approval
+    expect(lessons[0]).toMatchObject({ confirmations: 2, createdAt: "2026-10-18T12:00:00Z", similarity: 90 });
+  });
+
+  it("prefers confirmed and recent lessons at the same similarity", () => {
+    const lessons = rankFeedbackLessons([
+      candidate("stale", { comment: "Executor heap too small for the join", createdAt: "2025-10-19T12:00:00Z" }),
+      candidate("fresh", { comment: "Skewed join key sends every null to one partition" }),
+      candidate("confirmed", { comment: "Broadcast threshold was raised to 2GB", createdAt: "2026-08-19T12:00:00Z", confirmations: 3 }),
+    ], NOW);
+
+    expect(lessons.map((l) => l.id)).toEqual(["confirmed", "fresh", "stale"]);
+    expect(lessonWeight(lessons[2], NOW)).toBeLessThan(lessonWeight(lessons[1], NOW) / 10);
+  });
+
+  it("keeps at most MAX_LESSONS", () => {
+    const comments = ["Heap too small", "Skewed join key", "Expired credentials", "Schema drift upstream",
+      "Disk full on worker", "Clock skew between brokers", "Quota exceeded", "Stale lock file"];
+    const distinct = comments.map((comment, i) => candidate(`c${i}`, { comment }));
+    expect(rankFeedbackLessons(distinct, NOW)).toHaveLength(MAX_LESSONS);
+  });
+});
+
+describe("formatFeedbackLessons", () => {
+  it("numbers the lessons with why they apply", () => {
+    const [lesson] = rankFeedbackLessons([candidate("a", { confirmations: 1 })], NOW);
+    expect(formatFeedbackLessons([lesson])).toBe(
+      '1. Section "Root Cause Explanation" was marked incorrect on a similar incident (Identical stack trace). '
+        + 'Engineer correction: "The bucket policy denies the role, not the IAM policy" (confirmed 1 time since)',
+    );
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect, vi } from "vitest";
+import { redactedLogForStorage } from "@/lib/logStorage";
+import { DEFAULT_REDACTION_POLICY } from "@/lib/redaction";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+describe("redactedLogForStorage", () => {
+  it("masks secret fields of JSON-lines records, which the parse drops from the cleaned log", () => {
+    const stored = redactedLogForStorage([
+      '{"level":"info","msg":"connecting","api_key":"sk-live-9f8e7d6c5b4a3928"}',
+      '{"level":"error","msg":"login failed","user":"etl","password":"hunter2"}',
+    ].join("\n"), DEFAULT_REDACTION_POLICY);
+
+    expect(stored).not.toContain("sk-live-9f8e7d6c5b4a3928");
+    expect(stored).not.toContain("hunter2");
+    expect(stored.split("\n")[1]).toBe('{"level":"error","msg":"login failed","user":"etl","password":"[CREDENTIAL_REDACTED]"}');
+  });
+});
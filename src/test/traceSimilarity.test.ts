@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { parseStackTraces } from "@/lib/stackTrace";
+import { frameShingles, jaccard, minHashFrames, minHashSimilarity } from "@/lib/traceSimilarity";
+
+const OOM_TRACE = `java.lang.OutOfMemoryError: Java heap space
+\tat java.util.Arrays.copyOf(Arrays.java:3236)
+\tat java.util.ArrayList.grow(ArrayList.java:265)
+\tat com.acme.etl.Aggregator.lambda$merge$0(Aggregator.java:88)
+\tat com.acme.etl.Aggregator.merge(Aggregator.java:80)
+\tat com.acme.etl.Stage.runPartition(Stage.java:142)
+\tat com.acme.etl.Stage.run(Stage.java:97)
+\tat com.acme.etl.Executor.execute(Executor.java:51)
+\tat java.util.concurrent.ThreadPoolExecutor.runWorker(ThreadPoolExecutor.java:1149)
+\tat java.lang.Thread.run(Thread.java:748)`;
+
+function framesOf(trace: string) {
+  return parseStackTraces(trace).flatMap((b) => b.frames);
+}
+
+function withLine(trace: string, after: string, line: string): string {
+  return trace.replace(after, `${after}\n${line}`);
+}
+
+describe("trace similarity", () => {
+  it("scores identical traces as 1", () => {
+    const a = minHashFrames(framesOf(OOM_TRACE));
+    expect(minHashSimilarity(a, minHashFrames(framesOf(OOM_TRACE)))).toBe(1);
+  });
+
+  it("ignores line numbers and renumbered lambdas", () => {
+    const moved = OOM_TRACE
+      .replace("Aggregator.java:88", "Aggregator.java:91")
+      .replace("lambda$merge$0", "lambda$merge$3")
+      .replace("Stage.java:142", "Stage.java:150");
+    expect(minHashSimilarity(minHashFrames(framesOf(OOM_TRACE)), minHashFrames(framesOf(moved)))).toBe(1);
+  });
+
+  it("keeps near-duplicate traces with one extra frame highly similar", () => {
+    const extra = withLine(OOM_TRACE, "\tat com.acme.etl.Stage.runPartition(Stage.java:142)", "\tat com.acme.etl.Stage.retry(Stage.java:120)");
+    const a = framesOf(OOM_TRACE);
+    const b = framesOf(extra);
+
+    expect(jaccard(frameShingles(a), frameShingles(b))).toBeGreaterThan(0.75);
+    expect(minHashSimilarity(minHashFrames(a), minHashFrames(b))).toBeGreaterThan(0.6);
+  });
+
+  it("scores a trace with a missing frame close to its exact Jaccard similarity", () => {
+    const missing = OOM_TRACE.replace("\tat com.acme.etl.Stage.run(Stage.java:97)\n", "");
+    const a = framesOf(OOM_TRACE);
+    const b = framesOf(missing);
+    const exact = jaccard(frameShingles(a), frameShingles(b));
+
+    expect(Math.abs(minHashSimilarity(minHashFrames(a), minHashFrames(b)) - exact)).toBeLessThan(0.2);
+  });
+
+  it("scores unrelated traces low", () => {
+    const other = `Traceback (most recent call last):
+  File "/app/jobs/load.py", line 12, in main
+    run()
+  File "/app/jobs/load.py", line 40, in run
+    conn = connect(dsn)
+  File "/usr/lib/python3.11/site-packages/psycopg2/__init__.py", line 122, in connect
+    conn = _connect(dsn)
+psycopg2.OperationalError: connection refused`;
+
+    expect(minHashSimilarity(minHashFrames(framesOf(OOM_TRACE)), minHashFrames(framesOf(other)))).toBeLessThan(0.1);
+  });
+
+  it("returns 0 when either side has no frames", () => {
+    expect(minHashFrames([])).toEqual([]);
+    expect(minHashSimilarity([], minHashFrames(framesOf(OOM_TRACE)))).toBe(0);
+    expect(minHashSimilarity(null, null)).toBe(0);
+  });
+
+  it("produces signed 32-bit values that fit an INTEGER[] column", () => {
+    for (const h of minHashFrames(framesOf(OOM_TRACE))) {
+      expect(Number.isInteger(h)).toBe(true);
+      expect(h).toBeGreaterThanOrEqual(-(2 ** 31));
+      expect(h).toBeLessThan(2 ** 31);
+    }
+  });
+});
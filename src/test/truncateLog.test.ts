@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { truncateLog } from "@/lib/logParser";
+
+function infoLines(count: number, from = 0): string[] {
+  return Array.from({ length: count }, (_, i) => `2024-01-15 09:${String(Math.floor((from + i) / 60) % 60).padStart(2, "0")}:${String((from + i) % 60).padStart(2, "0")} DEBUG BlockManager: stored block rdd_${from + i} in memory`);
+}
+
+const FAILURE = [
+  "2024-01-15 10:00:00 ERROR Executor: Exception in task 3.0 in stage 7.0",
+  "java.lang.OutOfMemoryError: Java heap space",
+  "\tat java.util.Arrays.copyOf(Arrays.java:3236)",
+  "\tat com.acme.etl.Aggregator.merge(Aggregator.java:88)",
+];
+
+describe("truncateLog", () => {
+  it("returns short logs unchanged", () => {
+    const log = [...infoLines(5), ...FAILURE].join("\n");
+    expect(truncateLog(log)).toBe(log);
+  });
+
+  it("keeps an error that sits in the middle of a large log", () => {
+    const log = [...infoLines(3000), ...FAILURE, ...infoLines(3000, 3000)].join("\n");
+    const result = truncateLog(log);
+
+    expect(result.length).toBeLessThanOrEqual(12000);
+    for (const line of FAILURE) expect(result).toContain(line);
+  });
+
+  it("marks every dropped run with the number of omitted lines", () => {
+    const before = infoLines(3000);
+    const after = infoLines(3000, 3000);
+    const result = truncateLog([...before, ...FAILURE, ...after].join("\n"));
+
+    const markers = [...result.matchAll(/\.\.\. \[(\d+) lines omitted\] \.\.\./g)];
+    expect(markers.length).toBeGreaterThanOrEqual(2);
+    const kept = result.split("\n").length - markers.length;
+    const omitted = markers.reduce((n, m) => n + Number(m[1]), 0);
+    expect(kept + omitted).toBe(before.length + FAILURE.length + after.length);
+  });
+
+  it("keeps warnings leading up to the failure over unrelated noise", () => {
+    const warning = "2024-01-15 09:40:00 WARN TaskSetManager: Lost task 1.0 in stage 7.0, will retry";
+    const log = [...infoLines(1500), warning, ...infoLines(1500, 1500), ...FAILURE, ...infoLines(1500, 3000)].join("\n");
+    const result = truncateLog(log);
+
+    expect(result).toContain(warning);
+    expect(result).toContain(FAILURE[1]);
+  });
+
+  it("keeps the last failure when several errors compete for the budget", () => {
+    const early = "2024-01-15 08:00:00 ERROR Driver: Connection refused to metastore, retry 1 of 3 failed";
+    const blocks = Array.from({ length: 200 }, (_, i) => [`2024-01-15 08:${String(i % 60).padStart(2, "0")}:00 ERROR Worker: task ${i} failed`, ...infoLines(20, i * 20)]).flat();
+    const log = [early, ...blocks, ...FAILURE].join("\n");
+    const result = truncateLog(log);
+
+    expect(result.length).toBeLessThanOrEqual(12000);
+    for (const line of FAILURE) expect(result).toContain(line);
+  });
+
+  it("uses custom taxonomy patterns to score lines", () => {
+    // No fatal or warn keyword: only the custom rule can rank this line
+    const custom = "2024-01-15 09:20:00 DEBUG DeltaLog: concurrent append on table events";
+    const log = [...infoLines(2000), custom, ...infoLines(2000, 2000), ...FAILURE].join("\n");
+
+    expect(truncateLog(log)).not.toContain(custom);
+    expect(truncateLog(log, [{ type: "DeltaConflict", patterns: [/concurrent append/], priority: 10 }])).toContain(custom);
+  });
+
+  it("clips a single oversized line instead of dropping the failure", () => {
+    const huge = `2024-01-15 09:59:59 DEBUG payload=${"x".repeat(50000)}`;
+    const result = truncateLog([huge, ...FAILURE].join("\n"));
+
+    expect(result.length).toBeLessThanOrEqual(12000);
+    expect(result).toContain("...[clipped]");
+    expect(result).toContain(FAILURE[1]);
+  });
+});
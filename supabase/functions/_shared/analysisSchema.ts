@@ -0,0 +1,206 @@
+// The analysis contract between the analyze edge function and the Dashboard.
+// Imported by both: Deno resolves "zod" through the function's deno.json,
+// Vite through node_modules.
+import { z } from "zod";
+import { parsePartialJSON } from "./partialJson.ts";
+
+/** Models sometimes wrap a whole string value in square brackets, e.g. "[The job failed]" */
+export function normalizeText(value: string): string {
+  const trimmed = value.trim();
+  return (trimmed.startsWith("[") && trimmed.endsWith("]") ? trimmed.slice(1, -1) : trimmed).trim();
+}
+
+const text = z.preprocess(
+  (value) => {
+    if (Array.isArray(value) && value.every((v) => typeof v === "string")) value = value.join(" ");
+    return typeof value === "string" ? normalizeText(value) : value;
+  },
+  z.string().min(1, "must not be empty"),
+);
+
+/**
+ * One step per entry; a single string is split on newlines and bullets, never on
+ * punctuation that quoted code or config may hold, and list numbering is dropped
+ */
+const fixSteps = z.preprocess(
+  (value) => {
+    const steps = typeof value === "string" ? value.split(/\n|\s*•\s+/) : value;
+    if (!Array.isArray(steps)) return steps;
+    return steps
+      .map((step) => (typeof step === "string" ? normalizeText(step).replace(/^(\d+[.)]|[-*•])\s+/, "") : step))
+      .filter((step) => step !== "");
+  },
+  z.array(z.string().min(1)).min(1, "must list at least one step"),
+);
+
+/** A 0-100 integer; "85%" and 0.85 are read as 85 */
+const confidence = z.preprocess(
+  (value) => {
+    const n = typeof value === "string" ? Number.parseFloat(value.replace("%", "")) : value;
+    if (typeof n !== "number" || Number.isNaN(n)) return value;
+    return Math.round(n > 0 && n < 1 ? n * 100 : n);
+  },
+  z.number().int().min(0, "must be between 0 and 100").max(100, "must be between 0 and 100"),
+);
+
+/** Lines N through M of the cleaned log, 1-based and inclusive; N and [N, M] are accepted too */
+const lineRange = z.preprocess(
+  (value) => {
+    if (typeof value === "number") return { start: value, end: value };
+    if (Array.isArray(value)) return { start: value[0], end: value[1] ?? value[0] };
+    if (value && typeof value === "object" && (value as { end?: unknown }).end === undefined) {
+      return { ...value, end: (value as { start?: unknown }).start };
+    }
+    return value;
+  },
+  z.object({ start: z.number().int().min(1), end: z.number().int().min(1) })
+    .transform(({ start, end }) => ({ start: Math.min(start, end), end: Math.max(start, end) })),
+);
+
+export type LineRange = z.infer<typeof lineRange>;
+
+/** Citations are best-effort: malformed ones are dropped rather than sent back for repair */
+const lineRanges = z.preprocess(
+  (value) => (Array.isArray(value) ? value : value == null ? [] : [value]),
+  z.array(z.unknown()).transform((items) =>
+    items.flatMap((item) => {
+      const range = lineRange.safeParse(item);
+      return range.success ? [range.data] : [];
+    })),
+);
+
+const evidence = z.preprocess(
+  (value) => value ?? {},
+  z.object({
+    root_cause: lineRanges,
+    /** One list per recommended fix step, in the same order */
+    fix_steps: z.preprocess((value) => (Array.isArray(value) ? value : []), z.array(lineRanges)),
+  }),
+);
+
+export type Evidence = z.infer<typeof evidence>;
+
+export const analysisSchema = z.object({
+  error_type: text,
+  affected_service: text,
+  ai_summary: text,
+  root_cause_summary: text,
+  recommended_fix_steps: fixSteps,
+  long_term_prevention: text,
+  impact_scope: text,
+  /** The model's own confidence in its root cause; calibrated against deterministic signals client-side */
+  confidence,
+  confidence_reasoning: text,
+  /** Log lines backing the root cause and each fix step; optional, older replies have none */
+  evidence,
+});
+
+export type Analysis = z.infer<typeof analysisSchema>;
+
+export type AnalysisField = keyof Analysis;
+
+/** In the order the model is asked to write them, so streamed sections arrive in display order */
+export const ANALYSIS_FIELDS = Object.keys(analysisSchema.shape) as AnalysisField[];
+
+export interface FieldIssue {
+  field: AnalysisField;
+  message: string;
+}
+
+export type ValidationResult =
+  | { ok: true; analysis: Analysis }
+  | { ok: false; valid: Partial<Analysis>; issues: FieldIssue[] };
+
+/**
+ * Pull the JSON object out of a model reply: markdown fences and prose around
+ * it are skipped, and a reply cut off mid-way keeps the fields that finished.
+ * Returns null when there is no object at all.
+ */
+export function extractJSON(content: string): Record<string, unknown> | null {
+  const start = content.indexOf("{");
+  if (start < 0) return null;
+  const end = content.lastIndexOf("}");
+  if (end > start) {
+    try {
+      const parsed = JSON.parse(content.slice(start, end + 1));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+    } catch {
+      // Fall through to the tolerant parser
+    }
+  }
+  const partial = parsePartialJSON(content.slice(start));
+  return partial && typeof partial === "object" && !Array.isArray(partial) ? (partial as Record<string, unknown>) : null;
+}
+
+/** Validate each field on its own, so a repair only has to ask for the ones that failed */
+export function validateAnalysis(raw: Record<string, unknown>): ValidationResult {
+  const valid: Partial<Analysis> = {};
+  const issues: FieldIssue[] = [];
+
+  for (const field of ANALYSIS_FIELDS) {
+    if (raw[field] === undefined && !analysisSchema.shape[field].isOptional()) {
+      issues.push({ field, message: "is missing" });
+      continue;
+    }
+    const result = analysisSchema.shape[field].safeParse(raw[field]);
+    if (result.success) {
+      (valid as Record<string, unknown>)[field] = result.data;
+    } else {
+      issues.push({ field, message: result.error.issues[0]?.message ?? "is invalid" });
+    }
+  }
+
+  return issues.length === 0 ? { ok: true, analysis: valid as Analysis } : { ok: false, valid, issues };
+}
+
+export type AnalysisErrorCode = "rate_limited" | "usage_limited" | "invalid_output" | "provider_error";
+
+/** Body of a failed analyze response (JSON reply or SSE "error" event) */
+export interface AnalysisErrorBody {
+  error: string;
+  code: AnalysisErrorCode;
+  status: number;
+  /** Fields still invalid after repair, for code "invalid_output" */
+  issues?: FieldIssue[];
+}
+
+/** How the analyze function's response cache handled a request */
+export interface CacheStatus {
+  key: string;
+  /** Served from the cache instead of the model */
+  hit: boolean;
+  /** When the cached analysis was produced, on a hit */
+  cachedAt: string | null;
+}
+
+/** What produced an analysis: stored on incidents and log_analyses to compare prompt and model changes */
+export interface Provenance {
+  promptVersion: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  /** Summed over the analysis and any repair calls; null when the provider reports no usage */
+  promptTokens: number | null;
+  completionTokens: number | null;
+  /** incident_feedback rows injected into the prompt as lessons */
+  feedbackLessonIds: string[];
+}
+
+/** An engineer correction injected into the prompt, and why it was picked */
+export interface InjectedLesson {
+  /** The incident_feedback row; near-duplicate corrections are merged into this one */
+  id: string;
+  incidentId: string;
+  sectionName: string;
+  comment: string;
+  createdAt: string;
+  /** 0-100: how similar the corrected incident is to the analyzed log */
+  similarity: number;
+  /** Approvals of later analyses it was injected into, plus corrections repeating it */
+  confirmations: number;
+  /** e.g. "Identical stack trace", "Same service: billing" */
+  matchReasons: string[];
+}
+
+/** A successful analyze reply: the analysis, with cache status when caching applied */
+export type AnalyzeResponse = Analysis & { cache?: CacheStatus; provenance?: Provenance; lessons?: InjectedLesson[] };
@@ -0,0 +1,98 @@
+// Which engineer corrections the analyze function injects into its prompt. The
+// database returns corrections made on incidents similar to the analyzed log
+// (find_feedback_lessons); these are merged, weighted and cut down here.
+// Imported by the client too, where the ranking is tested.
+import type { InjectedLesson } from "./analysisSchema.ts";
+
+/** A correction as find_feedback_lessons returns it, before merging */
+export interface LessonCandidate {
+  id: string;
+  incidentId: string;
+  sectionName: string;
+  comment: string;
+  createdAt: string;
+  /** 0-100 similarity of the corrected incident */
+  similarity: number;
+  matchReasons: string[];
+  /** Approvals of the same section on later analyses the correction was injected into */
+  confirmations: number;
+}
+
+/** Lessons injected into one prompt */
+export const MAX_LESSONS = 5;
+
+/** A lesson's weight halves every this many days */
+const LESSON_HALF_LIFE_DAYS = 90;
+
+/** Corrections of the same section sharing this much of their wording say the same thing */
+const DUPLICATE_OVERLAP = 0.6;
+
+export const FEEDBACK_SECTION_LABELS: Record<string, string> = {
+  root_cause: "Root Cause Explanation",
+  suggested_fix: "Suggested Fix",
+  prevention: "Preventive Recommendation",
+  business_impact: "Business Impact",
+};
+
+function commentTerms(comment: string): Set<string> {
+  return new Set(comment.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Similar, confirmed and recent lessons weigh more; a year-old unconfirmed one is nearly ignored */
+export function lessonWeight(lesson: Pick<InjectedLesson, "similarity" | "confirmations" | "createdAt">, now: Date): number {
+  const ageDays = Math.max(0, (now.getTime() - new Date(lesson.createdAt).getTime()) / 86_400_000);
+  return (lesson.similarity / 100) * 0.5 ** (ageDays / LESSON_HALF_LIFE_DAYS) * (1 + Math.log2(1 + lesson.confirmations));
+}
+
+/**
+ * Merge corrections that repeat each other, then keep the heaviest. A merged
+ * lesson is the most similar correction's, dated by the latest repetition,
+ * and each repetition counts as one more confirmation.
+ */
+export function rankFeedbackLessons(candidates: LessonCandidate[], now = new Date(), limit = MAX_LESSONS): InjectedLesson[] {
+  const groups: { terms: Set<string>; members: LessonCandidate[] }[] = [];
+  const bySimilarity = [...candidates].sort((a, b) => b.similarity - a.similarity || b.createdAt.localeCompare(a.createdAt));
+  for (const candidate of bySimilarity) {
+    const terms = commentTerms(candidate.comment);
+    const group = groups.find((g) =>
+      g.members[0].sectionName === candidate.sectionName && jaccard(g.terms, terms) >= DUPLICATE_OVERLAP);
+    if (group) group.members.push(candidate);
+    else groups.push({ terms, members: [candidate] });
+  }
+
+  const lessons = groups.map(({ members: [best, ...repeats] }): InjectedLesson => ({
+    id: best.id,
+    incidentId: best.incidentId,
+    sectionName: best.sectionName,
+    comment: best.comment.trim(),
+    createdAt: repeats.reduce((latest, r) => (r.createdAt > latest ? r.createdAt : latest), best.createdAt),
+    similarity: best.similarity,
+    confirmations: best.confirmations + repeats.reduce((sum, r) => sum + r.confirmations + 1, 0),
+    matchReasons: best.matchReasons,
+  }));
+
+  return lessons
+    .map((lesson) => ({ lesson, weight: lessonWeight(lesson, now) }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, limit)
+    .map(({ lesson }) => lesson);
+}
+
+/** Numbered lessons for the prompt template's {{lessons}} */
+export function formatFeedbackLessons(lessons: InjectedLesson[]): string {
+  return lessons.map((lesson, i) => {
+    const section = FEEDBACK_SECTION_LABELS[lesson.sectionName] || lesson.sectionName;
+    const confirmed = lesson.confirmations > 0
+      ? ` (confirmed ${lesson.confirmations} time${lesson.confirmations === 1 ? "" : "s"} since)`
+      : "";
+    const reasons = lesson.matchReasons.length > 0 ? ` (${lesson.matchReasons.join("; ")})` : "";
+    return `${i + 1}. Section "${section}" was marked incorrect on a similar incident${reasons}. Engineer correction: "${lesson.comment}"${confirmed}`;
+  }).join("\n");
+}
@@ -0,0 +1,136 @@
+/**
+ * Tolerant JSON parser for a response that is still streaming in. Parses as
+ * far as the text goes and returns what it has: open strings keep the text
+ * received so far, open arrays and objects keep their finished members, and
+ * values that may still be growing (numbers, true/false/null) are left out
+ * until a delimiter follows them. Text before the first "{" or "[" (such as a
+ * markdown fence) is skipped. Returns undefined when no value has started.
+ */
+export function parsePartialJSON(text: string): unknown {
+  const start = text.search(/[[{]/);
+  if (start < 0) return undefined;
+  return new PartialParser(text, start).value();
+}
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+class PartialParser {
+  /** Whether the last string read had its closing quote */
+  private closed = false;
+
+  constructor(private text: string, private pos: number) {}
+
+  private get done() {
+    return this.pos >= this.text.length;
+  }
+
+  private skipWhitespace() {
+    while (!this.done && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  value(): unknown {
+    this.skipWhitespace();
+    if (this.done) return undefined;
+    const ch = this.text[this.pos];
+    if (ch === "{") return this.object();
+    if (ch === "[") return this.array();
+    if (ch === '"') return this.string();
+    return this.scalar();
+  }
+
+  private object(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== '"') return result;
+
+      const key = this.string();
+      // A key cut off mid-way is not a key yet
+      if (!this.closed) return result;
+
+      this.skipWhitespace();
+      if (this.done || this.text[this.pos] !== ":") return result;
+      this.pos++;
+
+      const value = this.value();
+      if (value !== undefined) result[key] = value;
+    }
+  }
+
+  private array(): unknown[] {
+    const result: unknown[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipWhitespace();
+      if (this.done) return result;
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+      const before = this.pos;
+      const value = this.value();
+      if (value !== undefined) result.push(value);
+      // Stop on anything the parser can't make progress on
+      if (this.pos === before) return result;
+    }
+  }
+
+  private string(): string {
+    let result = "";
+    this.pos++;
+    while (!this.done) {
+      const ch = this.text[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        this.closed = true;
+        return result;
+      }
+      if (ch !== "\\") {
+        result += ch;
+        this.pos++;
+        continue;
+      }
+
+      const escaped = this.text[this.pos + 1];
+      if (escaped === undefined) break;
+      if (escaped === "u") {
+        const hex = this.text.slice(this.pos + 2, this.pos + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 6;
+        continue;
+      }
+      result += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[escaped] ?? escaped;
+      this.pos += 2;
+    }
+    // Cut off mid-string or mid-escape: keep what arrived
+    this.pos = this.text.length;
+    this.closed = false;
+    return result;
+  }
+
+  private scalar(): unknown {
+    const match = this.text.slice(this.pos).match(/^[^,}\]\s]+/);
+    if (!match) return undefined;
+    this.pos += match[0].length;
+    // Without a delimiter after it, "12" may become "125" and "tr" may become "true"
+    if (this.done) return undefined;
+    if (match[0] in LITERALS) return LITERALS[match[0]];
+    const number = Number(match[0]);
+    return Number.isNaN(number) ? undefined : number;
+  }
+}
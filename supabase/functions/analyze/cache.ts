@@ -0,0 +1,124 @@
+// Content-addressed response cache for the analyze function. A job that retries
+// every hour uploads the same failure with new timestamps and ids; those are
+// masked out of the key so the retry is served the earlier analysis. Other
+// numbers (exit codes, HTTP statuses, sizes) stay: they can change the answer.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { Analysis, CacheStatus, Provenance } from "../_shared/analysisSchema.ts";
+import type { LLMProvider } from "./providers.ts";
+
+/** Entries older than this are analyzed again */
+const CACHE_TTL_DAYS = 30;
+
+// Line-preserving, so evidence line numbers cited by a cached analysis still apply
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<ts>"],
+  // Spark's yy/MM/dd and syslog's "Oct 19" layouts, then any remaining time of day
+  [/\b\d{2}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2}\b|\b[A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}\b/g, "<ts>"],
+  [/\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g, "<ts>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>"],
+  [/\b0x[0-9a-f]+\b|\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, "<hex>"],
+  [/\b(attempt|retry|try)(\s*#?)\d+/gi, "$1$2<n>"],
+];
+
+/** The cleaned log with timestamps, ids and counters masked */
+export function normalizeForCache(cleanedLog: string): string {
+  return cleanedLog
+    .split("\n")
+    .map((line) => VOLATILE_PATTERNS.reduce((text, [pattern, mask]) => text.replace(pattern, mask), line).trimEnd())
+    .join("\n");
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** What goes into the prompt besides the log; a new known fix or correction must not be served a stale answer */
+export interface PromptInputs {
+  tokenBudget: unknown;
+  knownResolution: unknown;
+  /** incident_feedback rows injected as lessons */
+  lessonIds: string[];
+}
+
+/** Same log, failure fingerprint, prompt inputs, prompt and model: same analysis */
+export function analysisCacheKey(
+  cleanedLog: string,
+  fingerprint: string,
+  promptVersion: string,
+  provider: LLMProvider,
+  inputs: PromptInputs,
+): Promise<string> {
+  return sha256([
+    promptVersion,
+    `${provider.id}:${provider.model}`,
+    fingerprint,
+    `budget:${Number(inputs.tokenBudget) || ""}`,
+    `known:${JSON.stringify(inputs.knownResolution ?? null)}`,
+    `lessons:${[...inputs.lessonIds].sort().join(",")}`,
+    normalizeForCache(cleanedLog),
+  ].join("\n"));
+}
+
+function serviceClient() {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+export interface CachedAnalysis {
+  analysis: Analysis;
+  status: CacheStatus;
+  /** Of the call that produced the analysis; null for entries cached before provenance was recorded */
+  provenance: Provenance | null;
+}
+
+/** A fresh cached analysis for this key, counting the hit; null on a miss or any error */
+export async function lookupCachedAnalysis(userId: string, key: string): Promise<CachedAnalysis | null> {
+  try {
+    const supabase = serviceClient();
+    const { data } = await supabase
+      .from("analysis_cache")
+      .select("analysis, provenance, created_at, hits")
+      .eq("user_id", userId)
+      .eq("cache_key", key)
+      .gte("created_at", new Date(Date.now() - CACHE_TTL_DAYS * 86_400_000).toISOString())
+      .maybeSingle();
+    if (!data) return null;
+
+    await supabase
+      .from("analysis_cache")
+      .update({ hits: data.hits + 1, last_hit_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("cache_key", key);
+
+    return { analysis: data.analysis, status: { key, hit: true, cachedAt: data.created_at }, provenance: data.provenance };
+  } catch (e) {
+    console.error("Failed to read analysis cache:", e);
+    return null;
+  }
+}
+
+/** Store (or replace, after a forced re-analysis) the analysis for this key */
+export async function storeCachedAnalysis(
+  userId: string,
+  key: string,
+  analysis: Analysis,
+  provenance: Provenance,
+): Promise<void> {
+  try {
+    const { error } = await serviceClient().from("analysis_cache").upsert({
+      user_id: userId,
+      cache_key: key,
+      analysis,
+      prompt_version: provenance.promptVersion,
+      provider: provenance.provider,
+      model: provenance.model,
+      provenance,
+      hits: 0,
+      created_at: new Date().toISOString(),
+      last_hit_at: null,
+    });
+    if (error) console.error("Failed to write analysis cache:", error);
+  } catch (e) {
+    console.error("Failed to write analysis cache:", e);
+  }
+}
@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  CompletionRequest, LLMProvider, ProviderSettings, resolveProvider, streamCompletion, TokenUsage,
+} from "./providers.ts";
+import { renderPrompt, resolvePrompt } from "./prompts.ts";
+import { analysisCacheKey, lookupCachedAnalysis, storeCachedAnalysis } from "./cache.ts";
+import { NO_LESSONS, retrieveFeedbackLessons } from "./lessons.ts";
+import {
+  Analysis, AnalysisErrorBody, AnalyzeResponse, extractJSON, FieldIssue, Provenance, validateAnalysis,
+} from "../_shared/analysisSchema.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,130 +16,216 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const BASE_SYSTEM_PROMPT = `You are a senior data platform reliability engineer with deep expertise in distributed systems, data pipelines, and incident response.
+interface ChainLink {
+  exceptionType: string;
+  message: string;
+  depth: number;
+  frames?: string[];
+}
+
+function formatExceptionChain(chain: unknown): string {
+  if (!Array.isArray(chain) || chain.length === 0) return "";
+  const links = chain as ChainLink[];
+  const body = links.map((link) => {
+    const frames = (link.frames || []).map((f) => `     at ${f}`).join("\n");
+    return `${link.depth}. ${link.exceptionType}${link.message ? `: ${link.message}` : ""}${frames ? `\n${frames}` : ""}`;
+  }).join("\n");
+  const root = links[links.length - 1];
+
+  return `
+Exception Chain (outermost wrapper → innermost cause):
+\`\`\`
+${body}
+\`\`\`
+Innermost Cause: ${root.exceptionType}${root.message ? `: ${root.message}` : ""}
+`;
+}
+
+interface KnownResolution {
+  resolutionNotes: string;
+  rootCauseSummary?: string | null;
+  recommendedFixSteps?: string[];
+  resolvedIncidentDate?: string;
+}
 
-You will receive structured, preprocessed log data including:
-- A detected error type
-- An extracted error snippet
-- A log summary
-- Service name, environment, and other metadata when available
+function formatKnownResolution(resolution: unknown): string {
+  const known = resolution as KnownResolution | null;
+  if (!known || typeof known.resolutionNotes !== "string" || !known.resolutionNotes.trim()) return "";
+  const steps = Array.isArray(known.recommendedFixSteps) ? known.recommendedFixSteps : [];
+  const resolvedOn = known.resolvedIncidentDate ? `, from ${known.resolvedIncidentDate.slice(0, 10)},` : "";
 
-Your task is to analyze the failure and return ONLY a valid JSON object with exactly these fields:
+  const lines = [
+    `Known Resolution (a past incident with the same failure fingerprint${resolvedOn} was resolved):`,
+    `What fixed it (engineer notes): ${known.resolutionNotes.trim()}`,
+    known.rootCauseSummary ? `Root cause then: ${known.rootCauseSummary}` : null,
+    steps.length > 0 ? `Fix steps suggested then:\n${steps.map((step, i) => `${i + 1}. ${step}`).join("\n")}` : null,
+  ].filter(Boolean).join("\n");
 
-{
-  "error_type": "The specific error classification",
-  "affected_service": "The service or component that failed",
-  "ai_summary": "A concise 2-3 sentence summary explaining the failure so engineers can quickly understand the issue without reading the entire log",
-  "root_cause_summary": "A concise, technical explanation of why this failure occurred (2-4 sentences)",
-  "recommended_fix_steps": ["Step 1", "Step 2", "Step 3"],
-  "long_term_prevention": "Specific preventive measures to avoid recurrence",
-  "impact_scope": "The potential business and operational consequences if unresolved (1-3 sentences)"
+  return `\n${lines}\n`;
 }
 
-CRITICAL RULES:
-- Output ONLY the JSON object. No markdown, no backticks, no explanation outside the JSON.
-- The ai_summary should be a plain-language explanation that helps engineers quickly understand what happened.
-- Do NOT guess or hallucinate when data is insufficient. Say so explicitly.
-- Do NOT wrap string values in square brackets.
-- recommended_fix_steps MUST be a JSON array of strings.
-- Prioritize structured reasoning over speculation.
-- If you cannot determine root cause, say "Insufficient data to determine root cause".`;
+interface ContextSection {
+  id: string;
+  title: string;
+  content: string;
+}
+
+/** Hard ceiling on client-assembled context, whatever budget the request asks for */
+const MAX_CONTEXT_TOKENS = 32000;
+
+function formatContext(context: unknown, tokenBudget: unknown): string {
+  const sections = (context as { sections?: ContextSection[] } | null)?.sections;
+  if (!Array.isArray(sections) || sections.length === 0) return "";
+  const budget = Math.min(Number(tokenBudget) || MAX_CONTEXT_TOKENS, MAX_CONTEXT_TOKENS);
+  let remainingChars = budget * 4;
+
+  const parts: string[] = [];
+  for (const section of sections) {
+    if (typeof section?.content !== "string" || remainingChars <= 0) continue;
+    const content = section.content.slice(-remainingChars);
+    remainingChars -= content.length;
+    parts.push(`${section.title}:\n\`\`\`\n${content}\n\`\`\``);
+  }
+  return parts.join("\n\n");
+}
 
-async function fetchFeedbackLessons(userId: string, errorType: string): Promise<string> {
+async function fetchProviderSettings(userId: string): Promise<ProviderSettings | null> {
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Get negative feedback with corrections for this error type
-    const { data: feedbackData } = await supabase
-      .from("incident_feedback")
-      .select("section_name, comment, incidents!inner(error_type, root_cause_summary, ai_summary)")
+    const { data } = await supabase
+      .from("llm_settings")
+      .select("provider, model")
       .eq("user_id", userId)
-      .eq("feedback_type", "negative")
-      .not("comment", "is", null)
-      .order("created_at", { ascending: false })
-      .limit(20);
-
-    if (!feedbackData || feedbackData.length === 0) return "";
-
-    // Filter to relevant feedback (same error type or general corrections)
-    const relevant = feedbackData.filter((fb: any) => {
-      const incident = fb.incidents;
-      return incident?.error_type === errorType || !incident?.error_type;
-    }).slice(0, 10);
-
-    if (relevant.length === 0) return "";
-
-    const lessons = relevant.map((fb: any, i: number) => {
-      const sectionLabel: Record<string, string> = {
-        root_cause: "Root Cause Explanation",
-        suggested_fix: "Suggested Fix",
-        prevention: "Preventive Recommendation",
-        business_impact: "Business Impact",
-      };
-      return `${i + 1}. Section "${sectionLabel[fb.section_name] || fb.section_name}" was marked incorrect. Engineer correction: "${fb.comment}"`;
-    }).join("\n");
-
-    return `\n\nIMPORTANT — ENGINEER FEEDBACK HISTORY:
-The following corrections were provided by engineers for similar past analyses. Use these to improve your response and avoid repeating the same mistakes:
-
-${lessons}
+      .maybeSingle();
+    return data;
+  } catch (e) {
+    console.error("Failed to fetch LLM settings:", e);
+    return null;
+  }
+}
 
-Apply these lessons when generating your analysis. If an engineer corrected a root cause or fix, prefer their explanation over your default reasoning for similar scenarios.`;
+/** The caller from the verified JWT; null for the anon key or an invalid token */
+async function authenticatedUserId(req: Request): Promise<string | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data } = await supabase.auth.getUser(token);
+    return data.user?.id ?? null;
   } catch (e) {
-    console.error("Failed to fetch feedback:", e);
-    return "";
+    console.error("Failed to verify caller:", e);
+    return null;
   }
 }
 
-async function callLLM(systemPrompt: string, userPrompt: string, apiKey: string): Promise<string> {
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-3-flash-preview",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.2,
-    }),
+/** Invalid output that survived a repair attempt; reported to the client with the failing fields */
+class InvalidOutputError extends Error {
+  constructor(public issues: FieldIssue[]) {
+    super(`AI returned invalid fields: ${issues.map((i) => i.field).join(", ")}`);
+  }
+}
+
+const REPLY_WITH_JSON = "Return ONLY a valid JSON object.";
+
+/**
+ * Validate a reply and repair what failed. A reply with no JSON object is asked
+ * for again in full; otherwise only the invalid or missing fields are re-asked,
+ * with the accepted ones given as context so the answer stays consistent.
+ */
+async function analyzeReply(
+  provider: LLMProvider,
+  requestFor: (user: string) => CompletionRequest,
+  userPrompt: string,
+  content: string,
+): Promise<Analysis> {
+  let raw = extractJSON(content);
+  if (!raw) {
+    console.log("LLM response had no JSON object, asking again...");
+    raw = extractJSON(await provider.complete(
+      requestFor(`${userPrompt}\n\nIMPORTANT: Your previous response was not valid JSON. ${REPLY_WITH_JSON}`),
+    )) ?? {};
+  }
+
+  const first = validateAnalysis(raw);
+  if (first.ok) return first.analysis;
+
+  console.log("Repairing invalid fields:", first.issues.map((i) => i.field).join(", "));
+  const fields = first.issues.map((i) => i.field);
+  const repairPrompt = `${userPrompt}
+
+IMPORTANT: These fields of your previous response were invalid:
+${first.issues.map((i) => `- ${i.field} ${i.message}`).join("\n")}
+
+These fields were accepted:
+${JSON.stringify(first.valid, null, 2)}
+
+${REPLY_WITH_JSON} It must contain exactly these fields: ${fields.join(", ")}.`;
+
+  const repaired = extractJSON(await provider.complete(requestFor(repairPrompt))) ?? {};
+  const merged = validateAnalysis({
+    ...first.valid,
+    ...Object.fromEntries(fields.filter((f) => repaired[f] !== undefined).map((f) => [f, repaired[f]])),
   });
+  if (!merged.ok) throw new InvalidOutputError(merged.issues);
+  return merged.analysis;
+}
 
-  if (!response.ok) {
-    const status = response.status;
-    if (status === 429) throw { status: 429, message: "Rate limit exceeded. Please try again shortly." };
-    if (status === 402) throw { status: 402, message: "Usage limit reached. Please add credits." };
-    const errText = await response.text();
-    console.error("AI gateway error:", status, errText);
-    throw new Error(`AI gateway returned ${status}`);
+function errorBody(err: unknown): AnalysisErrorBody {
+  const status = (err as { status?: number })?.status;
+  if (status === 429 || status === 402) {
+    return {
+      error: (err as { message: string }).message,
+      code: status === 429 ? "rate_limited" : "usage_limited",
+      status,
+    };
+  }
+  if (err instanceof InvalidOutputError) {
+    return { error: err.message, code: "invalid_output", status: 502, issues: err.issues };
   }
+  return { error: err instanceof Error ? err.message : "Unknown error", code: "provider_error", status: 500 };
+}
 
-  const aiData = await response.json();
-  return aiData.choices?.[0]?.message?.content ?? "";
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
 }
 
-function parseJSON(content: string): Record<string, unknown> | null {
-  const jsonMatch = content.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return null;
-  try {
-    const parsed = JSON.parse(jsonMatch[0]);
-    if (typeof parsed.root_cause_summary !== "string") return null;
-    if (!Array.isArray(parsed.recommended_fix_steps)) {
-      if (typeof parsed.recommended_fix_steps === "string") {
-        parsed.recommended_fix_steps = parsed.recommended_fix_steps.split(/\n|;/).filter(Boolean).map((s: string) => s.trim());
-      } else {
-        parsed.recommended_fix_steps = [];
+/**
+ * Server-sent events: "delta" events carry raw model text as it arrives (the
+ * client parses it progressively), then one "result" with the validated JSON,
+ * or an "error" with the same AnalysisErrorBody as the JSON response.
+ */
+function streamAnalysis(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  finish: (content: string) => Promise<AnalyzeResponse>,
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => controller.enqueue(encoder.encode(sseEvent(event, data)));
+      try {
+        let content = "";
+        for await (const text of streamCompletion(provider, request)) {
+          content += text;
+          send("delta", { text });
+        }
+        send("result", await finish(content));
+      } catch (err) {
+        const body = errorBody(err);
+        if (body.code !== "rate_limited" && body.code !== "usage_limited") console.error("analyze stream error:", err);
+        send("error", body);
+      } finally {
+        controller.close();
       }
-    }
-    return parsed;
-  } catch {
-    return null;
-  }
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
 }
 
 serve(async (req) => {
@@ -139,62 +234,123 @@ serve(async (req) => {
   }
 
   try {
-    const { detectedErrorType, errorSnippet, logSummary, serviceName, environment, requestId, userId } = await req.json();
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const {
+      detectedErrorType, detectedErrors, errorSnippet, exceptionChain, context, tokenBudget,
+      logSummary, serviceName, environment, requestId, knownResolution, stream, evaluation,
+      cleanedLog, fingerprint, reanalyze, promptVersion, llm, stackTraceHash, legacyStackTraceHash, stackMinHash, embedding,
+      embeddingModel,
+    } = await req.json();
+
+    // The user is taken from the JWT, never the body, since it reads and writes their cache rows.
+    // Evaluation runs pin the provider and model per request and skip the cache and feedback
+    // lessons, so they score the prompt and model alone
+    const userId = evaluation ? null : await authenticatedUserId(req);
+    const provider = resolveProvider(llm ?? (userId ? await fetchProviderSettings(userId) : null));
+    const prompt = resolvePrompt(promptVersion);
+
+    // Corrections engineers made on incidents with a similar trace or failure text; older
+    // clients send neither, so they get no lessons rather than ones matched by type alone
+    const lessons = userId
+      ? await retrieveFeedbackLessons(userId, {
+          stackTraceHash: typeof stackTraceHash === "string" ? stackTraceHash : "",
+          legacyStackTraceHash: typeof legacyStackTraceHash === "string" ? legacyStackTraceHash : null,
+          stackMinHash: Array.isArray(stackMinHash) ? stackMinHash : [],
+          errorType: detectedErrorType,
+          serviceName: serviceName ?? null,
+          embedding: typeof embedding === "string" ? embedding : null,
+          embeddingModel: typeof embeddingModel === "string" ? embeddingModel : null,
+        })
+      : NO_LESSONS;
+    const systemPrompt = prompt.system + (lessons.text ? renderPrompt(prompt.feedback, { lessons: lessons.text }) : "");
+
+    // Retried jobs upload the same failure again: serve the earlier analysis unless asked to re-analyze
+    const cacheKey = userId && typeof cleanedLog === "string" && typeof fingerprint === "string"
+      ? await analysisCacheKey(cleanedLog, fingerprint, prompt.version, provider, {
+          tokenBudget,
+          knownResolution,
+          lessonIds: lessons.lessons.map((l) => l.id),
+        })
+      : null;
+    if (cacheKey && !reanalyze) {
+      const cached = await lookupCachedAnalysis(userId, cacheKey);
+      if (cached) {
+        // The lesson ids are part of the key, so these are the lessons the cached analysis was given
+        const reply: AnalyzeResponse = {
+          ...cached.analysis, cache: cached.status, provenance: cached.provenance ?? undefined, lessons: lessons.lessons,
+        };
+        return new Response(JSON.stringify(reply), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
     }
 
-    // Fetch engineer feedback lessons to improve the prompt
-    const feedbackContext = userId ? await fetchFeedbackLessons(userId, detectedErrorType) : "";
-    const systemPrompt = BASE_SYSTEM_PROMPT + feedbackContext;
+    const contributing = Array.isArray(detectedErrors)
+      ? detectedErrors
+          .filter((e: { role?: string }) => e.role === "contributing")
+          .map((e: { type: string; matchCount: number; fatal: boolean }) =>
+            `${e.type} (${e.matchCount} match${e.matchCount === 1 ? "" : "es"}${e.fatal ? "" : ", warnings only"})`)
+      : [];
 
     const metadataLines = [
       `Detected Error Type: ${detectedErrorType}`,
+      contributing.length > 0 ? `Contributing Error Types: ${contributing.join(", ")}` : null,
       serviceName ? `Service Name: ${serviceName}` : null,
       environment ? `Environment: ${environment}` : null,
       requestId ? `Request ID: ${requestId}` : null,
     ].filter(Boolean).join("\n");
 
-    const userPrompt = `${metadataLines}
-
-Error Snippet:
+    // Older clients send only the snippet and chain; newer ones send a budgeted context
+    const contextSection = formatContext(context, tokenBudget) || `Error Snippet:
 \`\`\`
 ${errorSnippet}
 \`\`\`
+${formatExceptionChain(exceptionChain)}`;
 
-Log Summary: ${logSummary}
+    const userPrompt = renderPrompt(prompt.user, {
+      metadata: metadataLines,
+      context: contextSection,
+      known_resolution: formatKnownResolution(knownResolution),
+      log_summary: String(logSummary ?? ""),
+    });
 
-Analyze this failure and respond with the structured JSON object as specified.`;
+    // Every call of this analysis, repairs included, uses the template's temperature and counts toward its usage
+    const usage: TokenUsage[] = [];
+    const requestFor = (user: string): CompletionRequest => ({
+      system: systemPrompt,
+      user,
+      temperature: prompt.temperature,
+      onUsage: (u) => usage.push(u),
+    });
 
-    let content = await callLLM(systemPrompt, userPrompt, LOVABLE_API_KEY);
-    let parsed = parseJSON(content);
+    const finish = async (content: string): Promise<AnalyzeResponse> => {
+      const analysis = await analyzeReply(provider, requestFor, userPrompt, content);
+      const provenance: Provenance = {
+        promptVersion: prompt.version,
+        provider: provider.id,
+        model: provider.model,
+        temperature: prompt.temperature,
+        promptTokens: usage.length > 0 ? usage.reduce((sum, u) => sum + u.promptTokens, 0) : null,
+        completionTokens: usage.length > 0 ? usage.reduce((sum, u) => sum + u.completionTokens, 0) : null,
+        feedbackLessonIds: lessons.lessons.map((l) => l.id),
+      };
+      if (!cacheKey) return { ...analysis, provenance, lessons: lessons.lessons };
+      await storeCachedAnalysis(userId, cacheKey, analysis, provenance);
+      return { ...analysis, cache: { key: cacheKey, hit: false, cachedAt: null }, provenance, lessons: lessons.lessons };
+    };
 
-    if (!parsed) {
-      console.log("First LLM response was invalid JSON, retrying...");
-      content = await callLLM(systemPrompt, userPrompt + "\n\nIMPORTANT: Your previous response was not valid JSON. Return ONLY a valid JSON object.", LOVABLE_API_KEY);
-      parsed = parseJSON(content);
-    }
+    if (stream) return streamAnalysis(provider, requestFor(userPrompt), finish);
 
-    if (!parsed) {
-      throw new Error("AI did not return valid JSON after retry");
-    }
+    const analysis = await finish(await provider.complete(requestFor(userPrompt)));
 
-    return new Response(JSON.stringify(parsed), {
+    return new Response(JSON.stringify(analysis), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
-  } catch (err: any) {
-    if (err?.status === 429 || err?.status === 402) {
-      return new Response(
-        JSON.stringify({ error: err.message, status: err.status }),
-        { status: err.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    console.error("analyze error:", err);
+  } catch (err) {
+    const body = errorBody(err);
+    if (body.code !== "rate_limited" && body.code !== "usage_limited") console.error("analyze error:", err);
     return new Response(
-      JSON.stringify({ error: err instanceof Error ? err.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify(body),
+      { status: body.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
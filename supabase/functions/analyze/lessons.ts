@@ -0,0 +1,70 @@
+// Engineer corrections for the analyze prompt, found by how similar their
+// incident is to the log being analyzed rather than by error type alone.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { InjectedLesson } from "../_shared/analysisSchema.ts";
+import { formatFeedbackLessons, LessonCandidate, rankFeedbackLessons } from "../_shared/feedbackLessons.ts";
+
+/** What the client knows about the failure before the model sees it */
+export interface LessonQuery {
+  stackTraceHash: string;
+  /** Text hash older incidents were saved with; omitted by older clients */
+  legacyStackTraceHash: string | null;
+  stackMinHash: number[];
+  errorType: string;
+  serviceName: string | null;
+  /** Embedding of the failure text, see failureEmbeddingText; omitted by older clients */
+  embedding: string | null;
+  embeddingModel: string | null;
+}
+
+export interface FeedbackLessons {
+  /** Numbered lessons for the prompt template's {{lessons}} */
+  text: string;
+  lessons: InjectedLesson[];
+}
+
+export const NO_LESSONS: FeedbackLessons = { text: "", lessons: [] };
+
+interface LessonRow {
+  id: string;
+  incident_id: string;
+  section_name: string;
+  comment: string;
+  created_at: string;
+  similarity_score: number;
+  match_reasons: string[];
+  confirmations: number;
+}
+
+export async function retrieveFeedbackLessons(userId: string, query: LessonQuery): Promise<FeedbackLessons> {
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data, error } = await supabase.rpc("find_feedback_lessons", {
+      _user_id: userId,
+      _stack_trace_hash: query.stackTraceHash,
+      _stack_minhash: query.stackMinHash,
+      _error_type: query.errorType,
+      _service_name: query.serviceName,
+      _embedding: query.embedding,
+      _embedding_model: query.embeddingModel,
+      _legacy_stack_trace_hash: query.legacyStackTraceHash,
+    });
+    if (error) throw error;
+
+    const candidates: LessonCandidate[] = ((data ?? []) as LessonRow[]).map((row) => ({
+      id: row.id,
+      incidentId: row.incident_id,
+      sectionName: row.section_name,
+      comment: row.comment,
+      createdAt: row.created_at,
+      similarity: row.similarity_score,
+      matchReasons: row.match_reasons ?? [],
+      confirmations: row.confirmations,
+    }));
+    const lessons = rankFeedbackLessons(candidates);
+    return lessons.length > 0 ? { text: formatFeedbackLessons(lessons), lessons } : NO_LESSONS;
+  } catch (e) {
+    console.error("Failed to fetch feedback:", e);
+    return NO_LESSONS;
+  }
+}
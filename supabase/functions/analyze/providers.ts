@@ -0,0 +1,287 @@
+// LLM providers for the analyze function. Each turns a system + user prompt
+// into the model's raw text reply; parsing and retries stay in index.ts.
+
+export type ProviderId = "lovable" | "openai" | "anthropic" | "azure" | "self_hosted" | "mock";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  temperature: number;
+  /** Called with the token counts of the call, when the provider reports them */
+  onUsage?(usage: TokenUsage): void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  /** Text deltas as the model produces them; providers without it are streamed as one chunk */
+  stream?(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export interface ProviderSettings {
+  provider?: string | null;
+  model?: string | null;
+}
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  lovable: "google/gemini-3-flash-preview",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  azure: "",
+  self_hosted: "llama3.1",
+  mock: "mock-analyst",
+};
+
+const PROVIDER_IDS = Object.keys(DEFAULT_MODELS) as ProviderId[];
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined;
+}
+
+/** Rate and credit limits surface to the client with their status; anything else is a 500 */
+async function checkResponse(response: Response, label: string) {
+  if (response.ok) return;
+  const status = response.status;
+  if (status === 429) throw { status: 429, message: "Rate limit exceeded. Please try again shortly." };
+  if (status === 402) throw { status: 402, message: "Usage limit reached. Please add credits." };
+  const errText = await response.text();
+  console.error(`${label} error:`, status, errText);
+  throw new Error(`${label} returned ${status}`);
+}
+
+function reportUsage(request: CompletionRequest, promptTokens: unknown, completionTokens: unknown) {
+  if (typeof promptTokens !== "number" && typeof completionTokens !== "number") return;
+  request.onUsage?.({ promptTokens: Number(promptTokens) || 0, completionTokens: Number(completionTokens) || 0 });
+}
+
+/** The data payloads of a server-sent event stream */
+async function* sseData(response: Response): AsyncIterable<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith("data:")) yield line.slice(5).trim();
+    }
+  }
+}
+
+export async function* streamCompletion(provider: LLMProvider, request: CompletionRequest): AsyncIterable<string> {
+  if (!provider.stream) {
+    yield await provider.complete(request);
+    return;
+  }
+  yield* provider.stream(request);
+}
+
+/** Chat completions, as served by OpenAI, the Lovable gateway, Ollama and vLLM */
+function openAICompatible(id: ProviderId, url: string, model: string, headers: Record<string, string>): LLMProvider {
+  const request = async ({ system, user, temperature }: CompletionRequest, stream: boolean) => {
+    // Azure only accepts stream_options on newer API versions
+    const streamOptions = stream && id !== "azure" ? { stream_options: { include_usage: true } } : {};
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: user },
+        ],
+        temperature,
+        stream,
+        ...streamOptions,
+      }),
+    });
+    await checkResponse(response, `${id} provider`);
+    return response;
+  };
+
+  return {
+    id,
+    model,
+    async complete(completion) {
+      const data = await (await request(completion, false)).json();
+      reportUsage(completion, data.usage?.prompt_tokens, data.usage?.completion_tokens);
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+    async *stream(completion) {
+      for await (const data of sseData(await request(completion, true))) {
+        if (data === "[DONE]") return;
+        const chunk = JSON.parse(data);
+        // With include_usage, the last chunk carries the usage and no choices
+        if (chunk.usage) reportUsage(completion, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
+
+function anthropic(apiKey: string, model: string, baseUrl = "https://api.anthropic.com"): LLMProvider {
+  const request = async ({ system, user, temperature }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        system,
+        messages: [{ role: "user", content: user }],
+        max_tokens: 4096,
+        temperature,
+        stream,
+      }),
+    });
+    await checkResponse(response, "anthropic provider");
+    return response;
+  };
+
+  return {
+    id: "anthropic",
+    model,
+    async complete(completion) {
+      const data = await (await request(completion, false)).json();
+      reportUsage(completion, data.usage?.input_tokens, data.usage?.output_tokens);
+      return (data.content || [])
+        .filter((block: { type: string }) => block.type === "text")
+        .map((block: { text: string }) => block.text)
+        .join("");
+    },
+    async *stream(completion) {
+      let promptTokens = 0;
+      for await (const data of sseData(await request(completion, true))) {
+        const event = JSON.parse(data);
+        // Input tokens arrive with message_start, the output total with message_delta
+        if (event.type === "message_start") promptTokens = event.message?.usage?.input_tokens ?? 0;
+        if (event.type === "message_delta") reportUsage(completion, promptTokens, event.usage?.output_tokens);
+        if (event.type === "content_block_delta" && event.delta?.type === "text_delta") yield event.delta.text;
+        if (event.type === "message_stop") return;
+      }
+    },
+  };
+}
+
+/**
+ * Offline stand-in: answers with a well-formed analysis built from the prompt's
+ * metadata, so the function can be exercised without network access or keys.
+ */
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  model: DEFAULT_MODELS.mock,
+  async complete({ system, user, onUsage }) {
+    const errorType = user.match(/^Detected Error Type: (.+)$/m)?.[1] ?? "Unknown Error";
+    const service = user.match(/^Service Name: (.+)$/m)?.[1] ?? "unknown-service";
+    // Cite the first numbered excerpt line that looks like the failure
+    const failureLine = Number(user.match(/^(\d+)\| .*(?:Error|Exception|FATAL)/m)?.[1]);
+    const cited = failureLine ? [{ start: failureLine, end: failureLine }] : [];
+    const content = JSON.stringify({
+      error_type: errorType,
+      affected_service: service,
+      ai_summary: `Mock analysis: ${service} failed with ${errorType}.`,
+      root_cause_summary: `Mock root cause for ${errorType}. No model was called.`,
+      recommended_fix_steps: ["Inspect the error snippet", "Apply the fix", "Re-run the job"],
+      long_term_prevention: "Mock prevention advice.",
+      impact_scope: "Mock impact assessment.",
+      confidence: 50,
+      confidence_reasoning: "Mock analysis; no model was called.",
+      evidence: { root_cause: cited, fix_steps: [cited, [], []] },
+    });
+    // Estimated the way the client budgets context, ~4 characters per token
+    onUsage?.({ promptTokens: Math.ceil((system.length + user.length) / 4), completionTokens: Math.ceil(content.length / 4) });
+    return content;
+  },
+  async *stream(request) {
+    // Small chunks, so streaming clients see fields fill in gradually
+    const content = await mockProvider.complete(request);
+    for (let i = 0; i < content.length; i += 24) yield content.slice(i, i + 24);
+  },
+};
+
+/** Build a provider from environment config, or null when it isn't configured here */
+function createProvider(id: ProviderId, model?: string | null): LLMProvider | null {
+  const chosenModel = model || env(`${id.toUpperCase()}_MODEL`) || DEFAULT_MODELS[id];
+
+  switch (id) {
+    case "lovable": {
+      const key = env("LOVABLE_API_KEY");
+      return key
+        ? openAICompatible(id, "https://ai.gateway.lovable.dev/v1/chat/completions", chosenModel, { Authorization: `Bearer ${key}` })
+        : null;
+    }
+    case "openai": {
+      const key = env("OPENAI_API_KEY");
+      const baseUrl = env("OPENAI_BASE_URL") || "https://api.openai.com/v1";
+      return key
+        ? openAICompatible(id, `${baseUrl.replace(/\/$/, "")}/chat/completions`, chosenModel, { Authorization: `Bearer ${key}` })
+        : null;
+    }
+    case "anthropic": {
+      const key = env("ANTHROPIC_API_KEY");
+      return key ? anthropic(key, chosenModel, env("ANTHROPIC_BASE_URL")) : null;
+    }
+    case "azure": {
+      // Azure routes by deployment name; the model setting names the deployment
+      const key = env("AZURE_OPENAI_API_KEY");
+      const endpoint = env("AZURE_OPENAI_ENDPOINT");
+      const deployment = model || env("AZURE_OPENAI_DEPLOYMENT");
+      const apiVersion = env("AZURE_OPENAI_API_VERSION") || "2024-06-01";
+      if (!key || !endpoint || !deployment) return null;
+      return openAICompatible(
+        id,
+        `${endpoint.replace(/\/$/, "")}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${apiVersion}`,
+        deployment,
+        { "api-key": key },
+      );
+    }
+    case "self_hosted": {
+      // Ollama and vLLM both serve the OpenAI API; the key is optional
+      const baseUrl = env("SELF_HOSTED_LLM_BASE_URL");
+      const key = env("SELF_HOSTED_LLM_API_KEY");
+      return baseUrl
+        ? openAICompatible(id, `${baseUrl.replace(/\/$/, "")}/chat/completions`, chosenModel, key ? { Authorization: `Bearer ${key}` } : {})
+        : null;
+    }
+    case "mock":
+      return mockProvider;
+  }
+}
+
+function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && (PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * The user's chosen provider when it is configured on this deployment, else
+ * LLM_PROVIDER (default "lovable"). Users pick a provider and model only:
+ * keys and base URLs come from the environment, so requests can't be pointed
+ * at arbitrary hosts.
+ */
+export function resolveProvider(settings: ProviderSettings | null): LLMProvider {
+  if (settings && isProviderId(settings.provider)) {
+    const provider = createProvider(settings.provider, settings.model);
+    if (provider) return provider;
+    console.warn(`Provider ${settings.provider} is not configured, using the default`);
+  }
+
+  const fallback = env("LLM_PROVIDER");
+  const id: ProviderId = isProviderId(fallback) ? fallback : "lovable";
+  const provider = createProvider(id, env("LLM_MODEL"));
+  if (!provider) throw new Error(`LLM provider "${id}" is not configured`);
+  return provider;
+}
@@ -0,0 +1,3 @@
+
+-- Ranked list of every error type detected in the log (primary + contributing)
+ALTER TABLE public.incidents ADD COLUMN IF NOT EXISTS detected_errors JSONB NOT NULL DEFAULT '[]'::jsonb;
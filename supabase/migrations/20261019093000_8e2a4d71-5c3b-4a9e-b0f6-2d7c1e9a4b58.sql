@@ -0,0 +1,30 @@
+
+-- User-defined error taxonomy rules merged into the client-side parser
+CREATE TABLE public.taxonomy_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  patterns TEXT[] NOT NULL DEFAULT '{}',
+  priority INTEGER NOT NULL DEFAULT 10,
+  color TEXT NOT NULL DEFAULT 'slate',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.taxonomy_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own taxonomy rules" ON public.taxonomy_rules
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own taxonomy rules" ON public.taxonomy_rules
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own taxonomy rules" ON public.taxonomy_rules
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own taxonomy rules" ON public.taxonomy_rules
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE INDEX idx_taxonomy_rules_user_id ON public.taxonomy_rules(user_id);
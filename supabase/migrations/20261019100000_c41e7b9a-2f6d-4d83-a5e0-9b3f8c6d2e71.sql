@@ -0,0 +1,20 @@
+
+-- Per-user PII and secret redaction policy applied before logs are analyzed
+CREATE TABLE public.redaction_policies (
+  user_id UUID NOT NULL PRIMARY KEY,
+  disabled_detectors TEXT[] NOT NULL DEFAULT '{}',
+  allow_list TEXT[] NOT NULL DEFAULT '{}',
+  custom_patterns JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.redaction_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own redaction policy" ON public.redaction_policies
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own redaction policy" ON public.redaction_policies
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own redaction policy" ON public.redaction_policies
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
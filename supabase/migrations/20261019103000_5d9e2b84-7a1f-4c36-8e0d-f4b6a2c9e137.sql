@@ -0,0 +1,122 @@
+
+-- Store only redacted raw logs, optionally keep an encrypted original, and purge raw logs after a retention period
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Purged rows keep their analysis fields but lose the raw log
+ALTER TABLE public.log_analyses ALTER COLUMN raw_log DROP NOT NULL;
+ALTER TABLE public.log_analyses
+  ADD COLUMN raw_log_encrypted BYTEA,
+  ADD COLUMN raw_log_purged_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.incidents
+  ADD COLUMN raw_log_encrypted BYTEA,
+  ADD COLUMN raw_log_purged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.log_storage_settings (
+  user_id UUID NOT NULL PRIMARY KEY,
+  keep_encrypted_original BOOLEAN NOT NULL DEFAULT false,
+  retention_days INTEGER CHECK (retention_days IS NULL OR retention_days > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.log_storage_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own log storage settings" ON public.log_storage_settings
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own log storage settings" ON public.log_storage_settings
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own log storage settings" ON public.log_storage_settings
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+-- Per-user encryption keys. RLS is enabled with no policies, so keys are only
+-- reachable through the SECURITY DEFINER functions below and never leave the database.
+CREATE TABLE public.user_encryption_keys (
+  user_id UUID NOT NULL PRIMARY KEY,
+  key TEXT NOT NULL DEFAULT encode(extensions.gen_random_bytes(32), 'base64'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.store_encrypted_raw_log(_analysis_id UUID, _incident_id UUID, _raw_log TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _key TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.user_encryption_keys (user_id) VALUES (auth.uid()) ON CONFLICT (user_id) DO NOTHING;
+  SELECT key INTO _key FROM public.user_encryption_keys WHERE user_id = auth.uid();
+
+  UPDATE public.log_analyses SET raw_log_encrypted = pgp_sym_encrypt(_raw_log, _key)
+    WHERE id = _analysis_id AND user_id = auth.uid();
+  UPDATE public.incidents SET raw_log_encrypted = pgp_sym_encrypt(_raw_log, _key)
+    WHERE id = _incident_id AND user_id = auth.uid();
+END;
+$$;
+
+-- The encrypted original of one analysis or incident; pass one of the two ids
+CREATE OR REPLACE FUNCTION public.decrypt_raw_log(_analysis_id UUID DEFAULT NULL, _incident_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT pgp_sym_decrypt(a.raw_log_encrypted, k.key)
+  FROM public.log_analyses a
+  JOIN public.user_encryption_keys k ON k.user_id = a.user_id
+  WHERE a.id = _analysis_id AND a.user_id = auth.uid() AND a.raw_log_encrypted IS NOT NULL
+  UNION ALL
+  SELECT pgp_sym_decrypt(i.raw_log_encrypted, k.key)
+  FROM public.incidents i
+  JOIN public.user_encryption_keys k ON k.user_id = i.user_id
+  WHERE i.id = _incident_id AND i.user_id = auth.uid() AND i.raw_log_encrypted IS NOT NULL
+  LIMIT 1;
+$$;
+
+-- Clears raw logs (redacted and encrypted) older than each user's retention period
+CREATE OR REPLACE FUNCTION public.purge_expired_raw_logs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _analyses INTEGER;
+  _incidents INTEGER;
+BEGIN
+  UPDATE public.log_analyses a
+    SET raw_log = NULL, raw_log_encrypted = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = a.user_id
+      AND s.retention_days IS NOT NULL
+      AND a.raw_log_purged_at IS NULL
+      AND a.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _analyses = ROW_COUNT;
+
+  UPDATE public.incidents i
+    SET raw_log = NULL, raw_log_encrypted = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = i.user_id
+      AND s.retention_days IS NOT NULL
+      AND i.raw_log_purged_at IS NULL
+      AND i.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _incidents = ROW_COUNT;
+
+  RETURN _analyses + _incidents;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_raw_logs() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('purge-expired-raw-logs', '15 3 * * *', $$SELECT public.purge_expired_raw_logs()$$);
@@ -0,0 +1,3 @@
+
+-- MinHash signature of each incident's stack frames for fuzzy trace similarity
+ALTER TABLE public.incidents ADD COLUMN stack_minhash INTEGER[];
@@ -0,0 +1,93 @@
+
+-- Server-side similarity search over a user's full incident history.
+-- MinHash signatures are split into 32 bands of 2 hashes (LSH); incidents sharing
+-- any band are candidates, found through a GIN index instead of a table scan.
+CREATE OR REPLACE FUNCTION public.minhash_bands(_signature INTEGER[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT array_agg(b || ':' || _signature[b * 2 + 1] || ',' || _signature[b * 2 + 2] ORDER BY b)
+  FROM generate_series(0, cardinality(_signature) / 2 - 1) AS b
+$$;
+
+ALTER TABLE public.incidents
+  ADD COLUMN stack_minhash_bands TEXT[] GENERATED ALWAYS AS (public.minhash_bands(stack_minhash)) STORED;
+
+CREATE INDEX idx_incidents_stack_minhash_bands ON public.incidents USING GIN (stack_minhash_bands);
+CREATE INDEX idx_incidents_user_error_type ON public.incidents(user_id, error_type);
+
+-- Scores mirror the original client-side engine: up to 70 for the stack trace
+-- (1.0 on an identical hash, else the MinHash estimate), 20 for the same error
+-- type and 10 for the same service. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.search_similar_incidents(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _limit INTEGER DEFAULT 5,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  error_type TEXT,
+  service_name TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  resolution_notes TEXT,
+  status TEXT,
+  similarity_score INTEGER,
+  trace_similarity NUMERIC,
+  match_reasons TEXT[],
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT i.*,
+      CASE
+        WHEN _stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      AND (
+        (_stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash)
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      (round(70 * c.trace_sim)
+        + CASE WHEN c.error_type = _error_type THEN 20 ELSE 0 END
+        + CASE WHEN _service_name IS NOT NULL AND c.service_name = _service_name THEN 10 ELSE 0 END)::integer AS score
+    FROM candidates c
+  )
+  SELECT
+    s.id, s.created_at, s.error_type, s.service_name, s.root_cause_summary, s.ai_summary,
+    s.resolution_notes, s.status,
+    LEAST(s.score, 100),
+    round(s.trace_sim, 2),
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.error_type = _error_type THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN _service_name IS NOT NULL AND s.service_name = _service_name THEN 'Same service: ' || s.service_name END
+    ], NULL),
+    count(*) OVER ()
+  FROM scored s
+  -- Recent incidents of the same type alone are not similar: a trace or the service must match too
+  WHERE s.score >= 20
+    AND (s.trace_sim > 0 OR (_service_name IS NOT NULL AND s.service_name = _service_name))
+  ORDER BY s.score DESC, s.created_at DESC
+  LIMIT _limit OFFSET _offset
+$$;
@@ -0,0 +1,110 @@
+
+-- Semantic similarity: embed each incident's AI summary and root cause, and
+-- blend vector similarity with the structural signals in the similarity search
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+ALTER TABLE public.incidents
+  ADD COLUMN embedding extensions.vector(384),
+  ADD COLUMN embedding_model TEXT;
+
+CREATE INDEX idx_incidents_embedding ON public.incidents
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+DROP FUNCTION public.search_similar_incidents(TEXT, INTEGER[], TEXT, TEXT, INTEGER, INTEGER);
+
+-- Weights: stack trace 55, semantic (summary embedding) 25, error type 12, service 8
+CREATE OR REPLACE FUNCTION public.search_similar_incidents(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _embedding extensions.vector(384) DEFAULT NULL,
+  _embedding_model TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 5,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  error_type TEXT,
+  service_name TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  resolution_notes TEXT,
+  status TEXT,
+  similarity_score INTEGER,
+  trace_similarity NUMERIC,
+  semantic_similarity NUMERIC,
+  match_reasons TEXT[],
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+-- The index is shared by all users: without an iterative scan (pgvector 0.8+) it yields
+-- ef_search rows across tenants, and the user and model filters can leave none of them
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  WITH nearest AS (
+    -- Semantic neighbours come from the HNSW index, not a scan
+    SELECT n.id
+    FROM public.incidents n
+    WHERE _embedding IS NOT NULL
+      AND n.user_id = auth.uid()
+      AND n.embedding_model = _embedding_model
+    ORDER BY n.embedding <=> _embedding
+    LIMIT 50
+  ),
+  candidates AS (
+    SELECT i.*,
+      CASE
+        WHEN _stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim,
+      CASE
+        WHEN _embedding IS NOT NULL AND i.embedding IS NOT NULL AND i.embedding_model = _embedding_model
+          THEN GREATEST(0, 1 - (i.embedding <=> _embedding))::numeric
+        ELSE 0::numeric
+      END AS semantic_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      AND (
+        (_stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash)
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+        OR i.id IN (SELECT id FROM nearest)
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      (round(55 * c.trace_sim) + round(25 * c.semantic_sim)
+        + CASE WHEN c.error_type = _error_type THEN 12 ELSE 0 END
+        + CASE WHEN _service_name IS NOT NULL AND c.service_name = _service_name THEN 8 ELSE 0 END)::integer AS score
+    FROM candidates c
+  )
+  SELECT
+    s.id, s.created_at, s.error_type, s.service_name, s.root_cause_summary, s.ai_summary,
+    s.resolution_notes, s.status,
+    LEAST(s.score, 100),
+    round(s.trace_sim, 2),
+    round(s.semantic_sim, 2),
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.semantic_sim >= 0.3 THEN 'Similar root cause (' || round(s.semantic_sim * 100) || '%)' END,
+      CASE WHEN s.error_type = _error_type THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN _service_name IS NOT NULL AND s.service_name = _service_name THEN 'Same service: ' || s.service_name END
+    ], NULL),
+    count(*) OVER ()
+  FROM scored s
+  -- Incidents of the same type alone are not similar: the trace, summary or service must match too
+  WHERE s.score >= 20
+    AND (s.trace_sim > 0 OR s.semantic_sim >= 0.3 OR (_service_name IS NOT NULL AND s.service_name = _service_name))
+  ORDER BY s.score DESC, s.created_at DESC
+  LIMIT _limit OFFSET _offset
+$$;
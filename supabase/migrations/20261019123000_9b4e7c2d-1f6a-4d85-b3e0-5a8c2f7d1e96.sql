@@ -0,0 +1,166 @@
+
+-- Explainable similarity: keep each incident's error snippet and stack trace for
+-- side-by-side comparison, and return a per-signal score breakdown from the search
+ALTER TABLE public.incidents
+  ADD COLUMN error_snippet TEXT,
+  ADD COLUMN stack_trace TEXT;
+
+-- Snippets and traces are cut from the raw log, so retention purges them too
+CREATE OR REPLACE FUNCTION public.purge_expired_raw_logs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _analyses INTEGER;
+  _incidents INTEGER;
+BEGIN
+  UPDATE public.log_analyses a
+    SET raw_log = NULL, raw_log_encrypted = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = a.user_id
+      AND s.retention_days IS NOT NULL
+      AND a.raw_log_purged_at IS NULL
+      AND a.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _analyses = ROW_COUNT;
+
+  UPDATE public.incidents i
+    SET raw_log = NULL, raw_log_encrypted = NULL, error_snippet = NULL, stack_trace = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = i.user_id
+      AND s.retention_days IS NOT NULL
+      AND i.raw_log_purged_at IS NULL
+      AND i.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _incidents = ROW_COUNT;
+
+  RETURN _analyses + _incidents;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_raw_logs() FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.search_similar_incidents(TEXT, INTEGER[], TEXT, TEXT, extensions.vector, TEXT, INTEGER, INTEGER);
+
+-- Weights: stack trace 50, message (summary embedding) 20, error type 12,
+-- time proximity 8 (halving about every three weeks), service 6, environment 4
+CREATE OR REPLACE FUNCTION public.search_similar_incidents(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _environment TEXT DEFAULT NULL,
+  _embedding extensions.vector(384) DEFAULT NULL,
+  _embedding_model TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 5,
+  _offset INTEGER DEFAULT 0,
+  _exclude_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  error_type TEXT,
+  service_name TEXT,
+  environment TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  resolution_notes TEXT,
+  status TEXT,
+  similarity_score INTEGER,
+  trace_similarity NUMERIC,
+  semantic_similarity NUMERIC,
+  match_reasons TEXT[],
+  breakdown JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+-- Keep walking the shared HNSW index until enough of this user's rows pass the filters
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  WITH nearest AS (
+    -- Semantic neighbours come from the HNSW index, not a scan
+    SELECT n.id
+    FROM public.incidents n
+    WHERE _embedding IS NOT NULL
+      AND n.user_id = auth.uid()
+      AND n.embedding_model = _embedding_model
+    ORDER BY n.embedding <=> _embedding
+    LIMIT 50
+  ),
+  candidates AS (
+    SELECT i.*,
+      CASE
+        WHEN _stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim,
+      CASE
+        WHEN _embedding IS NOT NULL AND i.embedding IS NOT NULL AND i.embedding_model = _embedding_model
+          THEN GREATEST(0, 1 - (i.embedding <=> _embedding))::numeric
+        ELSE 0::numeric
+      END AS semantic_sim,
+      CASE WHEN i.error_type = _error_type THEN 1 ELSE 0 END AS type_sim,
+      CASE WHEN _service_name IS NOT NULL AND i.service_name = _service_name THEN 1 ELSE 0 END AS service_sim,
+      CASE WHEN _environment IS NOT NULL AND i.environment = _environment THEN 1 ELSE 0 END AS env_sim,
+      exp(-extract(epoch FROM now() - i.created_at) / 86400 / 30)::numeric AS time_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      -- The incident the query was made for, once saved or reused from the cache
+      AND i.id IS DISTINCT FROM _exclude_id
+      AND (
+        (_stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash)
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+        OR i.id IN (SELECT id FROM nearest)
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      round(50 * c.trace_sim)::integer AS trace_pts,
+      round(20 * c.semantic_sim)::integer AS semantic_pts,
+      12 * c.type_sim AS type_pts,
+      6 * c.service_sim AS service_pts,
+      4 * c.env_sim AS env_pts,
+      round(8 * c.time_sim)::integer AS time_pts
+    FROM candidates c
+  ),
+  totals AS (
+    SELECT s.*, LEAST(s.trace_pts + s.semantic_pts + s.type_pts + s.service_pts + s.env_pts + s.time_pts, 100) AS score
+    FROM scored s
+  )
+  SELECT
+    s.id, s.created_at, s.error_type, s.service_name, s.environment, s.root_cause_summary, s.ai_summary,
+    s.resolution_notes, s.status,
+    s.score,
+    round(s.trace_sim, 2),
+    round(s.semantic_sim, 2),
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.semantic_sim >= 0.3 THEN 'Similar root cause (' || round(s.semantic_sim * 100) || '%)' END,
+      CASE WHEN s.type_sim = 1 THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN s.service_sim = 1 THEN 'Same service: ' || s.service_name END,
+      CASE WHEN s.env_sim = 1 THEN 'Same environment: ' || s.environment END
+    ], NULL),
+    jsonb_build_array(
+      jsonb_build_object('signal', 'stack_trace', 'similarity', round(s.trace_sim, 2), 'weight', 50, 'points', s.trace_pts),
+      jsonb_build_object('signal', 'message', 'similarity', round(s.semantic_sim, 2), 'weight', 20, 'points', s.semantic_pts),
+      jsonb_build_object('signal', 'error_type', 'similarity', s.type_sim, 'weight', 12, 'points', s.type_pts),
+      jsonb_build_object('signal', 'time', 'similarity', round(s.time_sim, 2), 'weight', 8, 'points', s.time_pts),
+      jsonb_build_object('signal', 'service', 'similarity', s.service_sim, 'weight', 6, 'points', s.service_pts),
+      jsonb_build_object('signal', 'environment', 'similarity', s.env_sim, 'weight', 4, 'points', s.env_pts)
+    ),
+    count(*) OVER ()
+  FROM totals s
+  -- Type and recency alone clear the score bar: the trace, summary or service must match too
+  WHERE s.score >= 20
+    AND (s.trace_sim > 0 OR s.semantic_sim >= 0.3 OR s.service_sim = 1)
+  ORDER BY s.score DESC, s.created_at DESC
+  LIMIT _limit OFFSET _offset
+$$;
@@ -0,0 +1,306 @@
+
+-- Problems group recurring incidents by fingerprint ("known issues"), with
+-- first/last seen, occurrence count and affected services kept up to date
+CREATE TABLE public.problems (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  title TEXT NOT NULL,
+  error_type TEXT,
+  -- Incident fingerprints routed to this problem; grows on merge, shrinks on split
+  fingerprints TEXT[] NOT NULL DEFAULT '{}',
+  first_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  occurrence_count INTEGER NOT NULL DEFAULT 0,
+  affected_services TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Known Issue', 'Resolved')),
+  notes TEXT
+);
+
+ALTER TABLE public.problems ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own problems" ON public.problems
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own problems" ON public.problems
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own problems" ON public.problems
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own problems" ON public.problems
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE INDEX idx_problems_user_last_seen ON public.problems(user_id, last_seen DESC);
+CREATE INDEX idx_problems_fingerprints ON public.problems USING GIN (fingerprints);
+
+-- The parsed-frame hash when the log had a trace, else error type and service
+CREATE OR REPLACE FUNCTION public.incident_fingerprint(_stack_trace_hash TEXT, _error_type TEXT, _service_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN coalesce(_stack_trace_hash, '') <> '' THEN 'trace:' || _stack_trace_hash
+    ELSE 'type:' || lower(coalesce(_error_type, 'unknown')) || '|' || lower(coalesce(_service_name, ''))
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.minhash_similarity(_a INTEGER[], _b INTEGER[])
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN cardinality(_a) > 0 AND cardinality(_a) = cardinality(_b) THEN
+      (SELECT count(*) FROM unnest(_a, _b) AS s(a, b) WHERE a = b)::numeric / cardinality(_a)
+    ELSE 0::numeric
+  END
+$$;
+
+ALTER TABLE public.incidents
+  ADD COLUMN problem_id UUID REFERENCES public.problems(id) ON DELETE SET NULL,
+  ADD COLUMN fingerprint TEXT GENERATED ALWAYS AS (public.incident_fingerprint(stack_trace_hash, error_type, service_name)) STORED;
+
+CREATE INDEX idx_incidents_problem_id ON public.incidents(problem_id);
+
+-- Problem carrying the fingerprint; failing that, the problem of a past incident
+-- whose trace is a near duplicate (a frame added or renamed), which then adopts
+-- the fingerprint; failing that, a new problem. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION public.find_or_create_problem(
+  _user_id UUID,
+  _fingerprint TEXT,
+  _error_type TEXT,
+  _service_name TEXT,
+  _stack_minhash INTEGER[],
+  _seen_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _problem_id UUID;
+BEGIN
+  -- Two analyses of the same failure at once must not open two problems
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text || _fingerprint));
+
+  SELECT p.id INTO _problem_id
+    FROM public.problems p
+    WHERE p.user_id = _user_id AND _fingerprint = ANY(p.fingerprints)
+    ORDER BY p.last_seen DESC
+    LIMIT 1;
+
+  IF _problem_id IS NULL AND cardinality(_stack_minhash) > 0 THEN
+    SELECT i.problem_id INTO _problem_id
+      FROM public.incidents i
+      WHERE i.user_id = _user_id
+        AND i.problem_id IS NOT NULL
+        AND i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        AND public.minhash_similarity(i.stack_minhash, _stack_minhash) >= 0.8
+      ORDER BY public.minhash_similarity(i.stack_minhash, _stack_minhash) DESC, i.created_at DESC
+      LIMIT 1;
+
+    IF _problem_id IS NOT NULL THEN
+      UPDATE public.problems
+        SET fingerprints = array_append(fingerprints, _fingerprint)
+        WHERE id = _problem_id;
+    END IF;
+  END IF;
+
+  IF _problem_id IS NULL THEN
+    INSERT INTO public.problems (user_id, title, error_type, fingerprints, first_seen, last_seen)
+      VALUES (
+        _user_id,
+        coalesce(_error_type, 'Unknown') || coalesce(' in ' || _service_name, ''),
+        _error_type,
+        ARRAY[_fingerprint],
+        _seen_at,
+        _seen_at
+      )
+      RETURNING id INTO _problem_id;
+  END IF;
+
+  RETURN _problem_id;
+END;
+$$;
+
+-- Recompute a problem's stats from its incidents; a problem left empty is removed
+CREATE OR REPLACE FUNCTION public.refresh_problem_stats(_problem_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _count INTEGER;
+BEGIN
+  SELECT count(*) INTO _count FROM public.incidents WHERE problem_id = _problem_id;
+
+  IF _count = 0 THEN
+    DELETE FROM public.problems WHERE id = _problem_id;
+    RETURN;
+  END IF;
+
+  UPDATE public.problems p
+    SET occurrence_count = s.occurrences,
+        first_seen = s.first_seen,
+        last_seen = s.last_seen,
+        affected_services = s.services,
+        updated_at = now()
+    FROM (
+      SELECT
+        count(*)::integer AS occurrences,
+        min(created_at) AS first_seen,
+        max(created_at) AS last_seen,
+        coalesce(
+          array_agg(DISTINCT coalesce(service_name, affected_service))
+            FILTER (WHERE coalesce(service_name, affected_service) IS NOT NULL),
+          '{}'
+        ) AS services
+      FROM public.incidents
+      WHERE problem_id = _problem_id
+    ) s
+    WHERE p.id = _problem_id;
+END;
+$$;
+
+-- New incidents are assigned on insert, so every path that saves one is covered
+CREATE OR REPLACE FUNCTION public.assign_incident_problem()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.problem_id IS NULL THEN
+    NEW.problem_id := public.find_or_create_problem(
+      NEW.user_id,
+      public.incident_fingerprint(NEW.stack_trace_hash, NEW.error_type, NEW.service_name),
+      NEW.error_type,
+      NEW.service_name,
+      NEW.stack_minhash,
+      NEW.created_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_incident_problem
+  BEFORE INSERT ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.assign_incident_problem();
+
+CREATE OR REPLACE FUNCTION public.sync_problem_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.problem_id IS NOT NULL THEN
+    PERFORM public.refresh_problem_stats(OLD.problem_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.problem_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.problem_id IS DISTINCT FROM OLD.problem_id) THEN
+    PERFORM public.refresh_problem_stats(NEW.problem_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_problem_stats
+  AFTER INSERT OR DELETE OR UPDATE OF problem_id, service_name, affected_service ON public.incidents
+  FOR EACH ROW EXECUTE FUNCTION public.sync_problem_stats();
+
+-- Fold the source problems into the target: incidents move and fingerprints are
+-- united, so future occurrences of any of them land on the target
+CREATE OR REPLACE FUNCTION public.merge_problems(_target_id UUID, _source_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  _source_ids := array_remove(_source_ids, _target_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.problems WHERE id = _target_id) THEN
+    RAISE EXCEPTION 'Problem % not found', _target_id;
+  END IF;
+
+  UPDATE public.problems t
+    SET fingerprints = ARRAY(
+      SELECT DISTINCT f
+      FROM public.problems p, unnest(p.fingerprints) AS f
+      WHERE p.id = _target_id OR (p.id = ANY(_source_ids) AND p.user_id = t.user_id)
+    )
+    WHERE t.id = _target_id;
+
+  UPDATE public.incidents SET problem_id = _target_id WHERE problem_id = ANY(_source_ids);
+  DELETE FROM public.problems WHERE id = ANY(_source_ids);
+END;
+$$;
+
+-- Move some of a problem's incidents to a new problem. Fingerprints seen only in
+-- the moved incidents go with them; shared ones stay with the original problem.
+CREATE OR REPLACE FUNCTION public.split_problem(_problem_id UUID, _incident_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _source public.problems%ROWTYPE;
+  _moved_fingerprints TEXT[];
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _source FROM public.problems WHERE id = _problem_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Problem % not found', _problem_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.incidents WHERE problem_id = _problem_id AND id = ANY(_incident_ids)) THEN
+    RAISE EXCEPTION 'None of the selected incidents belong to this problem';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.incidents WHERE problem_id = _problem_id AND id <> ALL(_incident_ids)) THEN
+    RAISE EXCEPTION 'A split must leave at least one incident in the original problem';
+  END IF;
+
+  _moved_fingerprints := ARRAY(
+    SELECT DISTINCT fingerprint FROM public.incidents
+    WHERE problem_id = _problem_id AND id = ANY(_incident_ids)
+    EXCEPT
+    SELECT fingerprint FROM public.incidents
+    WHERE problem_id = _problem_id AND id <> ALL(_incident_ids)
+  );
+
+  INSERT INTO public.problems (user_id, title, error_type, fingerprints)
+    VALUES (_source.user_id, _source.title || ' (split)', _source.error_type, _moved_fingerprints)
+    RETURNING id INTO _new_id;
+
+  UPDATE public.problems
+    SET fingerprints = ARRAY(SELECT unnest(fingerprints) EXCEPT SELECT unnest(_moved_fingerprints))
+    WHERE id = _problem_id;
+
+  UPDATE public.incidents SET problem_id = _new_id WHERE problem_id = _problem_id AND id = ANY(_incident_ids);
+
+  RETURN _new_id;
+END;
+$$;
+
+-- Group existing incidents oldest first, so near-duplicate matching sees earlier ones
+DO $$
+DECLARE
+  _incident RECORD;
+BEGIN
+  FOR _incident IN
+    SELECT id, user_id, fingerprint, error_type, service_name, stack_minhash, created_at
+    FROM public.incidents
+    WHERE problem_id IS NULL
+    ORDER BY created_at
+  LOOP
+    UPDATE public.incidents
+      SET problem_id = public.find_or_create_problem(
+        _incident.user_id, _incident.fingerprint, _incident.error_type,
+        _incident.service_name, _incident.stack_minhash, _incident.created_at
+      )
+      WHERE id = _incident.id;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,52 @@
+
+-- Known resolutions: the best resolved incident with engineer notes whose
+-- fingerprint matches the new log, or whose trace is a near duplicate of it
+CREATE INDEX idx_incidents_user_fingerprint ON public.incidents(user_id, fingerprint);
+
+CREATE OR REPLACE FUNCTION public.find_known_resolution(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  problem_id UUID,
+  resolution_notes TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  recommended_fix_steps TEXT,
+  long_term_prevention TEXT,
+  impact_scope TEXT,
+  affected_service TEXT,
+  trace_similarity NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT i.*,
+      CASE
+        WHEN i.fingerprint = public.incident_fingerprint(_stack_trace_hash, _error_type, _service_name) THEN 1::numeric
+        ELSE public.minhash_similarity(i.stack_minhash, _stack_minhash)
+      END AS trace_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      AND i.status = 'Resolved'
+      AND coalesce(btrim(i.resolution_notes), '') <> ''
+      AND (
+        i.fingerprint = public.incident_fingerprint(_stack_trace_hash, _error_type, _service_name)
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+      )
+  )
+  SELECT
+    m.id, m.created_at, m.problem_id, m.resolution_notes, m.root_cause_summary, m.ai_summary,
+    m.recommended_fix_steps, m.long_term_prevention, m.impact_scope, m.affected_service,
+    round(m.trace_sim, 2)
+  FROM matches m
+  WHERE m.trace_sim >= 0.8
+  ORDER BY m.trace_sim DESC, m.created_at DESC
+  LIMIT 1
+$$;
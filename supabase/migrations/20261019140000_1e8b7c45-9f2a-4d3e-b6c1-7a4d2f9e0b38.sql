@@ -0,0 +1,20 @@
+
+-- Per-user choice of LLM provider and model for the analyze function.
+-- Keys and base URLs stay in the function's environment.
+CREATE TABLE public.llm_settings (
+  user_id UUID NOT NULL PRIMARY KEY,
+  provider TEXT CHECK (provider IS NULL OR provider IN ('lovable', 'openai', 'anthropic', 'azure', 'self_hosted', 'mock')),
+  model TEXT CHECK (model IS NULL OR length(model) <= 200),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.llm_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own LLM settings" ON public.llm_settings
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own LLM settings" ON public.llm_settings
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own LLM settings" ON public.llm_settings
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id);
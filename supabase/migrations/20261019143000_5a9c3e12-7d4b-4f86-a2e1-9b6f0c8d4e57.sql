@@ -0,0 +1,11 @@
+
+-- Confidence is now calibrated per analysis; a score of 0 on older rows meant "never computed"
+ALTER TABLE public.incidents ALTER COLUMN confidence_score DROP DEFAULT;
+
+UPDATE public.incidents SET confidence_score = NULL WHERE confidence_reasoning IS NULL;
+
+ALTER TABLE public.incidents
+  ADD CONSTRAINT incidents_confidence_score_range CHECK (confidence_score BETWEEN 0 AND 100);
+
+-- Review queue: low-confidence incidents per user
+CREATE INDEX idx_incidents_user_confidence ON public.incidents (user_id, confidence_score);
@@ -0,0 +1,42 @@
+
+-- Evidence citations: the cleaned log the analysis was given, with numbered lines,
+-- and the line ranges it cites for the root cause and each fix step
+ALTER TABLE public.incidents
+  ADD COLUMN cleaned_log TEXT,
+  ADD COLUMN evidence JSONB;
+
+-- The cleaned log is cut from the raw log, so retention purges it too
+CREATE OR REPLACE FUNCTION public.purge_expired_raw_logs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _analyses INTEGER;
+  _incidents INTEGER;
+BEGIN
+  UPDATE public.log_analyses a
+    SET raw_log = NULL, raw_log_encrypted = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = a.user_id
+      AND s.retention_days IS NOT NULL
+      AND a.raw_log_purged_at IS NULL
+      AND a.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _analyses = ROW_COUNT;
+
+  UPDATE public.incidents i
+    SET raw_log = NULL, raw_log_encrypted = NULL, error_snippet = NULL, stack_trace = NULL, cleaned_log = NULL,
+      raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = i.user_id
+      AND s.retention_days IS NOT NULL
+      AND i.raw_log_purged_at IS NULL
+      AND i.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _incidents = ROW_COUNT;
+
+  RETURN _analyses + _incidents;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_raw_logs() FROM PUBLIC, anon, authenticated;
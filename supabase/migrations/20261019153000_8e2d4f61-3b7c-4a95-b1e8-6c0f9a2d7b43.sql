@@ -0,0 +1,70 @@
+-- Response cache for the analyze function, keyed on the normalised cleaned log,
+-- failure fingerprint, prompt version and model. Written by the function with
+-- the service role; users can see and clear their own entries.
+CREATE TABLE public.analysis_cache (
+  user_id UUID NOT NULL,
+  cache_key TEXT NOT NULL,
+  analysis JSONB NOT NULL,
+  prompt_version TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (user_id, cache_key)
+);
+
+ALTER TABLE public.analysis_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own analysis cache" ON public.analysis_cache
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own analysis cache" ON public.analysis_cache
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- A cache hit reuses the incident created from the first analysis instead of adding a duplicate
+ALTER TABLE public.incidents ADD COLUMN analysis_cache_key TEXT;
+
+CREATE INDEX idx_incidents_user_cache_key ON public.incidents(user_id, analysis_cache_key);
+
+-- Cached analyses quote the log, so retention purges them with it
+CREATE OR REPLACE FUNCTION public.purge_expired_raw_logs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _analyses INTEGER;
+  _incidents INTEGER;
+BEGIN
+  UPDATE public.log_analyses a
+    SET raw_log = NULL, raw_log_encrypted = NULL, raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = a.user_id
+      AND s.retention_days IS NOT NULL
+      AND a.raw_log_purged_at IS NULL
+      AND a.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _analyses = ROW_COUNT;
+
+  UPDATE public.incidents i
+    SET raw_log = NULL, raw_log_encrypted = NULL, error_snippet = NULL, stack_trace = NULL, cleaned_log = NULL,
+      raw_log_purged_at = now()
+    FROM public.log_storage_settings s
+    WHERE s.user_id = i.user_id
+      AND s.retention_days IS NOT NULL
+      AND i.raw_log_purged_at IS NULL
+      AND i.created_at < now() - make_interval(days => s.retention_days);
+  GET DIAGNOSTICS _incidents = ROW_COUNT;
+
+  DELETE FROM public.analysis_cache c
+    USING public.log_storage_settings s
+    WHERE s.user_id = c.user_id
+      AND s.retention_days IS NOT NULL
+      AND c.created_at < now() - make_interval(days => s.retention_days);
+
+  RETURN _analyses + _incidents;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_raw_logs() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,24 @@
+-- Provenance: which prompt version, model and feedback lessons produced each
+-- analysis, with its token usage, so quality can be compared across prompt changes
+ALTER TABLE public.incidents
+  ADD COLUMN prompt_version TEXT,
+  ADD COLUMN llm_provider TEXT,
+  ADD COLUMN llm_model TEXT,
+  ADD COLUMN llm_temperature REAL,
+  ADD COLUMN prompt_tokens INTEGER,
+  ADD COLUMN completion_tokens INTEGER,
+  ADD COLUMN feedback_lesson_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.log_analyses
+  ADD COLUMN prompt_version TEXT,
+  ADD COLUMN llm_provider TEXT,
+  ADD COLUMN llm_model TEXT,
+  ADD COLUMN llm_temperature REAL,
+  ADD COLUMN prompt_tokens INTEGER,
+  ADD COLUMN completion_tokens INTEGER,
+  ADD COLUMN feedback_lesson_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_incidents_user_prompt_version ON public.incidents(user_id, prompt_version);
+
+-- A cache hit reports the provenance of the call that produced the cached analysis
+ALTER TABLE public.analysis_cache ADD COLUMN provenance JSONB;
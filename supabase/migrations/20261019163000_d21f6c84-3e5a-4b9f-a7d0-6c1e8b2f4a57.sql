@@ -0,0 +1,64 @@
+-- Offline evaluation runs over a golden dataset, replacing the evaluation_logs
+-- table dropped earlier. A run records the prompt and model it pinned and its
+-- aggregate scores; each case's outcome is kept so two runs can be compared.
+CREATE TABLE public.evaluation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  name TEXT NOT NULL,
+  dataset_name TEXT NOT NULL,
+  prompt_version TEXT,
+  llm_provider TEXT,
+  llm_model TEXT,
+  case_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  parser_accuracy REAL,
+  model_accuracy REAL,
+  root_cause_score REAL,
+  root_cause_match_rate REAL,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER
+);
+
+CREATE TABLE public.evaluation_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.evaluation_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  case_id TEXT NOT NULL,
+  expected_error_type TEXT NOT NULL,
+  detected_error_type TEXT NOT NULL,
+  predicted_error_type TEXT,
+  parser_correct BOOLEAN NOT NULL,
+  model_correct BOOLEAN NOT NULL,
+  expected_keywords TEXT[] NOT NULL DEFAULT '{}',
+  matched_keywords TEXT[] NOT NULL DEFAULT '{}',
+  root_cause_score REAL NOT NULL DEFAULT 0,
+  root_cause_summary TEXT,
+  error TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  duration_ms INTEGER,
+  UNIQUE (run_id, case_id)
+);
+
+ALTER TABLE public.evaluation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own evaluation runs" ON public.evaluation_runs
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own evaluation runs" ON public.evaluation_runs
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own evaluation runs" ON public.evaluation_runs
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+ALTER TABLE public.evaluation_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own evaluation results" ON public.evaluation_results
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own evaluation results" ON public.evaluation_results
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_evaluation_runs_user_created ON public.evaluation_runs(user_id, created_at DESC);
+CREATE INDEX idx_evaluation_results_run ON public.evaluation_results(run_id);
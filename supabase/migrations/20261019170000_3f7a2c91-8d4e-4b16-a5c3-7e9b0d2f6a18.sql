@@ -0,0 +1,110 @@
+-- Feedback lessons by similarity: the analyze function injects corrections made on
+-- incidents like the one being analyzed instead of every correction of the same error type
+
+-- Confirmations look up the analyses a lesson was injected into
+CREATE INDEX idx_incidents_feedback_lesson_ids ON public.incidents USING GIN (feedback_lesson_ids);
+
+-- Weights: stack trace 50, message (summary embedding) 30, error type 12, service 8.
+-- The trace or the failure text must match: a type and service alone (20) would still
+-- apply a Postgres permission correction to an S3 permission failure of the same job.
+-- Called by the analyze function with the service role, hence _user_id instead of auth.uid()
+CREATE OR REPLACE FUNCTION public.find_feedback_lessons(
+  _user_id UUID,
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _embedding extensions.vector(384) DEFAULT NULL,
+  _embedding_model TEXT DEFAULT NULL,
+  _min_score INTEGER DEFAULT 20,
+  _limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  incident_id UUID,
+  section_name TEXT,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  similarity_score INTEGER,
+  match_reasons TEXT[],
+  confirmations INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  WITH nearest AS (
+    SELECT n.id
+    FROM public.incidents n
+    WHERE _embedding IS NOT NULL
+      AND n.user_id = _user_id
+      AND n.embedding_model = _embedding_model
+    ORDER BY n.embedding <=> _embedding
+    LIMIT 50
+  ),
+  candidates AS (
+    SELECT i.id, i.error_type, i.service_name,
+      CASE
+        WHEN _stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim,
+      CASE
+        WHEN _embedding IS NOT NULL AND i.embedding IS NOT NULL AND i.embedding_model = _embedding_model
+          THEN GREATEST(0, 1 - (i.embedding <=> _embedding))::numeric
+        ELSE 0::numeric
+      END AS semantic_sim,
+      CASE WHEN i.error_type = _error_type THEN 1 ELSE 0 END AS type_sim,
+      CASE WHEN _service_name IS NOT NULL AND i.service_name = _service_name THEN 1 ELSE 0 END AS service_sim
+    FROM public.incidents i
+    WHERE i.user_id = _user_id
+      AND (
+        (_stack_trace_hash <> '' AND i.stack_trace_hash = _stack_trace_hash)
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+        OR i.id IN (SELECT id FROM nearest)
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      LEAST(round(50 * c.trace_sim) + round(30 * c.semantic_sim) + 12 * c.type_sim + 8 * c.service_sim, 100)::integer AS score
+    FROM candidates c
+  )
+  SELECT
+    f.id, f.incident_id, f.section_name, f.comment, f.created_at,
+    s.score,
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.semantic_sim >= 0.3 THEN 'Similar failure (' || round(s.semantic_sim * 100) || '%)' END,
+      CASE WHEN s.type_sim = 1 THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN s.service_sim = 1 THEN 'Same service: ' || s.service_name END
+    ], NULL),
+    -- Engineers approved the same section of an analysis the lesson was injected into
+    (
+      SELECT count(*)::integer
+      FROM public.incidents later
+      JOIN public.incident_feedback p ON p.incident_id = later.id
+      WHERE later.user_id = _user_id
+        AND later.feedback_lesson_ids @> ARRAY[f.id]
+        AND p.feedback_type = 'positive'
+        AND p.section_name = f.section_name
+    )
+  FROM scored s
+  JOIN public.incident_feedback f ON f.incident_id = s.id
+  WHERE f.user_id = _user_id
+    AND f.feedback_type = 'negative'
+    AND btrim(coalesce(f.comment, '')) <> ''
+    AND s.score >= _min_score
+    AND (s.trace_sim > 0 OR s.semantic_sim >= 0.3)
+  ORDER BY s.score DESC, f.created_at DESC
+  LIMIT _limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_feedback_lessons(UUID, TEXT, INTEGER[], TEXT, TEXT, extensions.vector, TEXT, INTEGER, INTEGER)
+  FROM PUBLIC, anon, authenticated;
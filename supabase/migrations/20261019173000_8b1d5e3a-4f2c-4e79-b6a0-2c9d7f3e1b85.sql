@@ -0,0 +1,327 @@
+-- Frame hashes replaced the text hash in incidents.stack_trace_hash. Incidents saved
+-- before that keep the text hash (and trace: fingerprints built from it), which SQL
+-- cannot recompute from frames, so new incidents store both and every exact-trace
+-- match also compares the text hash of the new log.
+ALTER TABLE public.incidents ADD COLUMN legacy_stack_trace_hash TEXT;
+
+-- A new incident whose text hash fingerprints an older problem joins it, and the
+-- problem adopts the frame fingerprint so later incidents match it directly
+CREATE OR REPLACE FUNCTION public.assign_incident_problem()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _fingerprint TEXT := public.incident_fingerprint(NEW.stack_trace_hash, NEW.error_type, NEW.service_name);
+BEGIN
+  IF NEW.problem_id IS NULL AND coalesce(NEW.legacy_stack_trace_hash, '') <> ''
+    AND NOT EXISTS (
+      SELECT 1 FROM public.problems p WHERE p.user_id = NEW.user_id AND _fingerprint = ANY(p.fingerprints)
+    ) THEN
+    SELECT p.id INTO NEW.problem_id
+      FROM public.problems p
+      WHERE p.user_id = NEW.user_id AND 'trace:' || NEW.legacy_stack_trace_hash = ANY(p.fingerprints)
+      ORDER BY p.last_seen DESC
+      LIMIT 1;
+
+    IF NEW.problem_id IS NOT NULL THEN
+      UPDATE public.problems
+        SET fingerprints = array_append(fingerprints, _fingerprint)
+        WHERE id = NEW.problem_id;
+    END IF;
+  END IF;
+
+  IF NEW.problem_id IS NULL THEN
+    NEW.problem_id := public.find_or_create_problem(
+      NEW.user_id,
+      _fingerprint,
+      NEW.error_type,
+      NEW.service_name,
+      NEW.stack_minhash,
+      NEW.created_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION public.search_similar_incidents(TEXT, INTEGER[], TEXT, TEXT, TEXT, extensions.vector, TEXT, INTEGER, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION public.search_similar_incidents(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _environment TEXT DEFAULT NULL,
+  _embedding extensions.vector(384) DEFAULT NULL,
+  _embedding_model TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 5,
+  _offset INTEGER DEFAULT 0,
+  _exclude_id UUID DEFAULT NULL,
+  _legacy_stack_trace_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  error_type TEXT,
+  service_name TEXT,
+  environment TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  resolution_notes TEXT,
+  status TEXT,
+  similarity_score INTEGER,
+  trace_similarity NUMERIC,
+  semantic_similarity NUMERIC,
+  match_reasons TEXT[],
+  breakdown JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+-- Keep walking the shared HNSW index until enough of this user's rows pass the filters
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  WITH nearest AS (
+    -- Semantic neighbours come from the HNSW index, not a scan
+    SELECT n.id
+    FROM public.incidents n
+    WHERE _embedding IS NOT NULL
+      AND n.user_id = auth.uid()
+      AND n.embedding_model = _embedding_model
+    ORDER BY n.embedding <=> _embedding
+    LIMIT 50
+  ),
+  candidates AS (
+    SELECT i.*,
+      CASE
+        WHEN i.stack_trace_hash IN (nullif(_stack_trace_hash, ''), nullif(_legacy_stack_trace_hash, '')) THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim,
+      CASE
+        WHEN _embedding IS NOT NULL AND i.embedding IS NOT NULL AND i.embedding_model = _embedding_model
+          THEN GREATEST(0, 1 - (i.embedding <=> _embedding))::numeric
+        ELSE 0::numeric
+      END AS semantic_sim,
+      CASE WHEN i.error_type = _error_type THEN 1 ELSE 0 END AS type_sim,
+      CASE WHEN _service_name IS NOT NULL AND i.service_name = _service_name THEN 1 ELSE 0 END AS service_sim,
+      CASE WHEN _environment IS NOT NULL AND i.environment = _environment THEN 1 ELSE 0 END AS env_sim,
+      exp(-extract(epoch FROM now() - i.created_at) / 86400 / 30)::numeric AS time_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      -- The incident the query was made for, once saved or reused from the cache
+      AND i.id IS DISTINCT FROM _exclude_id
+      AND (
+        i.stack_trace_hash IN (nullif(_stack_trace_hash, ''), nullif(_legacy_stack_trace_hash, ''))
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+        OR i.id IN (SELECT id FROM nearest)
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      round(50 * c.trace_sim)::integer AS trace_pts,
+      round(20 * c.semantic_sim)::integer AS semantic_pts,
+      12 * c.type_sim AS type_pts,
+      6 * c.service_sim AS service_pts,
+      4 * c.env_sim AS env_pts,
+      round(8 * c.time_sim)::integer AS time_pts
+    FROM candidates c
+  ),
+  totals AS (
+    SELECT s.*, LEAST(s.trace_pts + s.semantic_pts + s.type_pts + s.service_pts + s.env_pts + s.time_pts, 100) AS score
+    FROM scored s
+  )
+  SELECT
+    s.id, s.created_at, s.error_type, s.service_name, s.environment, s.root_cause_summary, s.ai_summary,
+    s.resolution_notes, s.status,
+    s.score,
+    round(s.trace_sim, 2),
+    round(s.semantic_sim, 2),
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.semantic_sim >= 0.3 THEN 'Similar root cause (' || round(s.semantic_sim * 100) || '%)' END,
+      CASE WHEN s.type_sim = 1 THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN s.service_sim = 1 THEN 'Same service: ' || s.service_name END,
+      CASE WHEN s.env_sim = 1 THEN 'Same environment: ' || s.environment END
+    ], NULL),
+    jsonb_build_array(
+      jsonb_build_object('signal', 'stack_trace', 'similarity', round(s.trace_sim, 2), 'weight', 50, 'points', s.trace_pts),
+      jsonb_build_object('signal', 'message', 'similarity', round(s.semantic_sim, 2), 'weight', 20, 'points', s.semantic_pts),
+      jsonb_build_object('signal', 'error_type', 'similarity', s.type_sim, 'weight', 12, 'points', s.type_pts),
+      jsonb_build_object('signal', 'time', 'similarity', round(s.time_sim, 2), 'weight', 8, 'points', s.time_pts),
+      jsonb_build_object('signal', 'service', 'similarity', s.service_sim, 'weight', 6, 'points', s.service_pts),
+      jsonb_build_object('signal', 'environment', 'similarity', s.env_sim, 'weight', 4, 'points', s.env_pts)
+    ),
+    count(*) OVER ()
+  FROM totals s
+  -- Type and recency alone clear the score bar: the trace, summary or service must match too
+  WHERE s.score >= 20
+    AND (s.trace_sim > 0 OR s.semantic_sim >= 0.3 OR s.service_sim = 1)
+  ORDER BY s.score DESC, s.created_at DESC
+  LIMIT _limit OFFSET _offset
+$$;
+
+DROP FUNCTION public.find_known_resolution(TEXT, INTEGER[], TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_known_resolution(
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _legacy_stack_trace_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  problem_id UUID,
+  resolution_notes TEXT,
+  root_cause_summary TEXT,
+  ai_summary TEXT,
+  recommended_fix_steps TEXT,
+  long_term_prevention TEXT,
+  impact_scope TEXT,
+  affected_service TEXT,
+  trace_similarity NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH matches AS (
+    SELECT i.*,
+      CASE
+        WHEN i.fingerprint = public.incident_fingerprint(_stack_trace_hash, _error_type, _service_name)
+          OR i.stack_trace_hash = nullif(_legacy_stack_trace_hash, '') THEN 1::numeric
+        ELSE public.minhash_similarity(i.stack_minhash, _stack_minhash)
+      END AS trace_sim
+    FROM public.incidents i
+    WHERE i.user_id = auth.uid()
+      AND i.status = 'Resolved'
+      AND coalesce(btrim(i.resolution_notes), '') <> ''
+      AND (
+        i.fingerprint = public.incident_fingerprint(_stack_trace_hash, _error_type, _service_name)
+        OR i.stack_trace_hash = nullif(_legacy_stack_trace_hash, '')
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+      )
+  )
+  SELECT
+    m.id, m.created_at, m.problem_id, m.resolution_notes, m.root_cause_summary, m.ai_summary,
+    m.recommended_fix_steps, m.long_term_prevention, m.impact_scope, m.affected_service,
+    round(m.trace_sim, 2)
+  FROM matches m
+  WHERE m.trace_sim >= 0.8
+  ORDER BY m.trace_sim DESC, m.created_at DESC
+  LIMIT 1
+$$;
+
+DROP FUNCTION public.find_feedback_lessons(UUID, TEXT, INTEGER[], TEXT, TEXT, extensions.vector, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.find_feedback_lessons(
+  _user_id UUID,
+  _stack_trace_hash TEXT,
+  _stack_minhash INTEGER[],
+  _error_type TEXT,
+  _service_name TEXT,
+  _embedding extensions.vector(384) DEFAULT NULL,
+  _embedding_model TEXT DEFAULT NULL,
+  _min_score INTEGER DEFAULT 20,
+  _limit INTEGER DEFAULT 30,
+  _legacy_stack_trace_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  incident_id UUID,
+  section_name TEXT,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  similarity_score INTEGER,
+  match_reasons TEXT[],
+  confirmations INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+SET hnsw.iterative_scan = relaxed_order
+AS $$
+  WITH nearest AS (
+    SELECT n.id
+    FROM public.incidents n
+    WHERE _embedding IS NOT NULL
+      AND n.user_id = _user_id
+      AND n.embedding_model = _embedding_model
+    ORDER BY n.embedding <=> _embedding
+    LIMIT 50
+  ),
+  candidates AS (
+    SELECT i.id, i.error_type, i.service_name,
+      CASE
+        WHEN i.stack_trace_hash IN (nullif(_stack_trace_hash, ''), nullif(_legacy_stack_trace_hash, '')) THEN 1::numeric
+        WHEN cardinality(_stack_minhash) > 0 AND cardinality(i.stack_minhash) = cardinality(_stack_minhash) THEN
+          (SELECT count(*) FROM unnest(i.stack_minhash, _stack_minhash) AS s(a, b) WHERE a = b)::numeric
+            / cardinality(_stack_minhash)
+        ELSE 0::numeric
+      END AS trace_sim,
+      CASE
+        WHEN _embedding IS NOT NULL AND i.embedding IS NOT NULL AND i.embedding_model = _embedding_model
+          THEN GREATEST(0, 1 - (i.embedding <=> _embedding))::numeric
+        ELSE 0::numeric
+      END AS semantic_sim,
+      CASE WHEN i.error_type = _error_type THEN 1 ELSE 0 END AS type_sim,
+      CASE WHEN _service_name IS NOT NULL AND i.service_name = _service_name THEN 1 ELSE 0 END AS service_sim
+    FROM public.incidents i
+    WHERE i.user_id = _user_id
+      AND (
+        i.stack_trace_hash IN (nullif(_stack_trace_hash, ''), nullif(_legacy_stack_trace_hash, ''))
+        OR i.stack_minhash_bands && public.minhash_bands(_stack_minhash)
+        OR i.error_type = _error_type
+        OR i.id IN (SELECT id FROM nearest)
+      )
+  ),
+  scored AS (
+    SELECT c.*,
+      LEAST(round(50 * c.trace_sim) + round(30 * c.semantic_sim) + 12 * c.type_sim + 8 * c.service_sim, 100)::integer AS score
+    FROM candidates c
+  )
+  SELECT
+    f.id, f.incident_id, f.section_name, f.comment, f.created_at,
+    s.score,
+    array_remove(ARRAY[
+      CASE
+        WHEN s.trace_sim = 1 THEN 'Identical stack trace'
+        WHEN s.trace_sim > 0 THEN 'Stack trace ' || round(s.trace_sim * 100) || '% similar'
+      END,
+      CASE WHEN s.semantic_sim >= 0.3 THEN 'Similar failure (' || round(s.semantic_sim * 100) || '%)' END,
+      CASE WHEN s.type_sim = 1 THEN 'Same error type: ' || s.error_type END,
+      CASE WHEN s.service_sim = 1 THEN 'Same service: ' || s.service_name END
+    ], NULL),
+    -- Engineers approved the same section of an analysis the lesson was injected into
+    (
+      SELECT count(*)::integer
+      FROM public.incidents later
+      JOIN public.incident_feedback p ON p.incident_id = later.id
+      WHERE later.user_id = _user_id
+        AND later.feedback_lesson_ids @> ARRAY[f.id]
+        AND p.feedback_type = 'positive'
+        AND p.section_name = f.section_name
+    )
+  FROM scored s
+  JOIN public.incident_feedback f ON f.incident_id = s.id
+  WHERE f.user_id = _user_id
+    AND f.feedback_type = 'negative'
+    AND btrim(coalesce(f.comment, '')) <> ''
+    AND s.score >= _min_score
+    AND (s.trace_sim > 0 OR s.semantic_sim >= 0.3)
+  ORDER BY s.score DESC, f.created_at DESC
+  LIMIT _limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_feedback_lessons(UUID, TEXT, INTEGER[], TEXT, TEXT, extensions.vector, TEXT, INTEGER, INTEGER, TEXT)
+  FROM PUBLIC, anon, authenticated;